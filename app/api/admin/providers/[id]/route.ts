@@ -0,0 +1,48 @@
+// app/api/admin/providers/[id]/route.ts
+import { requireAdmin } from "@/lib/adminAuth";
+import { jsonError } from "@/lib/apiResponse";
+import {
+  AnnotationError,
+  updateAnnotations,
+  validateAnnotationPatch,
+} from "@/lib/overrides";
+import { getCachedStatus, refreshAnnotations } from "@/lib/poller";
+import { getProvider } from "@/lib/providerConfig";
+
+export const dynamic = "force-dynamic";
+
+// PATCH /api/admin/providers/:id { override?, acknowledge?, note? } → the
+// provider's StatusSummary with the change applied. `null` clears a field.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const admin = requireAdmin(request);
+  if (admin instanceof Response) return admin;
+
+  const { id } = await params;
+  const summary = getProvider(id) && (await getCachedStatus(id));
+  if (!summary) return jsonError(404, `Unknown provider "${id}"`);
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError(400, "Request body must be JSON");
+  }
+  const { patch, issues } = validateAnnotationPatch(body);
+  if (issues.length) return jsonError(400, issues.join("; "));
+
+  try {
+    // Acknowledgements are about what the feed says, not an override
+    const feed = { ...summary, status: summary.feedStatus ?? summary.status };
+    await updateAnnotations(id, patch, feed, admin);
+  } catch (err) {
+    if (err instanceof AnnotationError) return jsonError(409, err.message);
+    throw err;
+  }
+
+  return Response.json(await refreshAnnotations(id), {
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,21 @@
+// app/api/badge/group/[id]/route.ts
+import { missingBadgeResponse, statusBadgeResponse } from "@/lib/badge";
+import { getAllStatuses } from "@/lib/poller";
+import { getProviderConfig } from "@/lib/providerConfig";
+import { rollupDashboard } from "@/lib/statusLevels";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/badge/group/:id → SVG badge with a group's rolled-up status
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const { groups } = getProviderConfig();
+  const group = groups.find((g) => g.id === id);
+  if (!group) return missingBadgeResponse("group");
+
+  const rollup = rollupDashboard(await getAllStatuses(), groups);
+  return statusBadgeResponse(request, group.name, rollup.groups[id]);
+}
@@ -0,0 +1,18 @@
+// app/api/badge/provider/[id]/route.ts
+import { missingBadgeResponse, statusBadgeResponse } from "@/lib/badge";
+import { getCachedStatus } from "@/lib/poller";
+import { getProvider } from "@/lib/providerConfig";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/badge/provider/:id → SVG status badge for one provider
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const summary = getProvider(id) && (await getCachedStatus(id));
+  if (!summary) return missingBadgeResponse("provider");
+
+  return statusBadgeResponse(request, summary.name, summary.status);
+}
@@ -0,0 +1,28 @@
+// app/api/incidents/mttr/route.ts
+import { jsonError } from "@/lib/apiResponse";
+import {
+  getIncidentStats,
+  incidentExportResponse,
+  incidentStatsToCsv,
+  parseIncidentQuery,
+  queryIncidents,
+} from "@/lib/incidentLog";
+import { getProviderConfig } from "@/lib/providerConfig";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/incidents/mttr?provider=&from=&to= → incident count and mean
+// time to resolve per provider over the same incidents as /api/incidents.
+// `format=csv` downloads them as CSV.
+export async function GET(request: Request) {
+  const { query, issues } = parseIncidentQuery(
+    new URL(request.url).searchParams,
+    getProviderConfig().providers.map((p) => p.id)
+  );
+  if (issues.length) return jsonError(400, issues.join("; "));
+
+  const stats = getIncidentStats(await queryIncidents(query));
+  return incidentExportResponse(request, "incident-mttr", stats, () =>
+    incidentStatsToCsv(stats)
+  );
+}
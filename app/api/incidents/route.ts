@@ -0,0 +1,31 @@
+// app/api/incidents/route.ts
+import { jsonError } from "@/lib/apiResponse";
+import {
+  getIncidentDurationMs,
+  incidentExportResponse,
+  incidentsToCsv,
+  parseIncidentQuery,
+  queryIncidents,
+} from "@/lib/incidentLog";
+import { getProviderConfig } from "@/lib/providerConfig";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/incidents?provider=a,b&from=2026-07-01&to=2026-09-30&q=...
+// → logged incidents overlapping the range, newest first. `format=csv`
+// downloads them as CSV.
+export async function GET(request: Request) {
+  const { query, issues } = parseIncidentQuery(
+    new URL(request.url).searchParams,
+    getProviderConfig().providers.map((p) => p.id)
+  );
+  if (issues.length) return jsonError(400, issues.join("; "));
+
+  const incidents = await queryIncidents(query);
+  return incidentExportResponse(
+    request,
+    "incidents",
+    incidents.map((i) => ({ ...i, durationMs: getIncidentDurationMs(i) })),
+    () => incidentsToCsv(incidents)
+  );
+}
@@ -0,0 +1,12 @@
+// app/api/services/route.ts
+import { jsonWithEtag } from "@/lib/apiResponse";
+import { evaluateServices } from "@/lib/businessServices";
+import { getAllStatuses } from "@/lib/poller";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/services → ServiceStatus[] for every business service
+export async function GET(request: Request) {
+  const statuses = await getAllStatuses();
+  return jsonWithEtag(request, evaluateServices(statuses));
+}
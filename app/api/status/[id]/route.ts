@@ -0,0 +1,18 @@
+// app/api/status/[id]/route.ts
+import { jsonError, jsonWithEtag } from "@/lib/apiResponse";
+import { getCachedStatus } from "@/lib/poller";
+import { getProvider } from "@/lib/providerConfig";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/status/:id → cached StatusSummary for one provider
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const summary = getProvider(id) && (await getCachedStatus(id));
+  if (!summary) return jsonError(404, `Unknown provider "${id}"`);
+
+  return jsonWithEtag(request, summary);
+}
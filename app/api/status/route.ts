@@ -0,0 +1,11 @@
+// app/api/status/route.ts
+import { jsonWithEtag } from "@/lib/apiResponse";
+import { getAllStatuses } from "@/lib/poller";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/status → cached StatusSummary[] for every configured provider
+export async function GET(request: Request) {
+  const statuses = await getAllStatuses();
+  return jsonWithEtag(request, statuses);
+}
@@ -0,0 +1,76 @@
+// app/api/status/stream/route.ts
+import type { StatusSummary } from "@/lib/statusSources";
+import { subscribeStatuses } from "@/lib/statusStream";
+
+export const dynamic = "force-dynamic";
+
+// Proxies tend to drop idle connections after ~30-60s
+const KEEP_ALIVE_MS = 15 * 1000;
+
+// GET /api/status/stream → text/event-stream of `update` events carrying
+// { at, changed: StatusSummary[] }. The first event holds every provider;
+// later ones only the providers whose summary changed.
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+  const sent = new Map<string, string>();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed; the abort handler tidies up
+        }
+      };
+
+      // Reconnect quickly after a dropped connection
+      write("retry: 5000\n\n");
+
+      const unsubscribe = subscribeStatuses(({ at, statuses }) => {
+        const changed: StatusSummary[] = [];
+        for (const summary of statuses) {
+          const json = JSON.stringify(summary);
+          if (sent.get(summary.id) === json) continue;
+          sent.set(summary.id, json);
+          changed.push(summary);
+        }
+        // Always send, so clients can show when the last refresh happened
+        write(`event: update\ndata: ${JSON.stringify({ at, changed })}\n\n`);
+      });
+
+      const keepAlive = setInterval(
+        () => write(": keep-alive\n\n"),
+        KEEP_ALIVE_MS
+      );
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+        cleanup = () => {};
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
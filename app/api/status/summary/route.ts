@@ -0,0 +1,33 @@
+// app/api/status/summary/route.ts
+import { jsonWithEtag } from "@/lib/apiResponse";
+import { getAllStatuses } from "@/lib/poller";
+import { getProviderConfig } from "@/lib/providerConfig";
+import {
+  STATUS_ORDER,
+  rollupDashboard,
+  type StatusLevel,
+} from "@/lib/statusLevels";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/status/summary → overall level, per-group levels and
+// provider count per level
+export async function GET(request: Request) {
+  const statuses = await getAllStatuses();
+  const { overall, groups } = rollupDashboard(
+    statuses,
+    getProviderConfig().groups
+  );
+
+  const counts = Object.fromEntries(
+    STATUS_ORDER.map((level) => [level, 0])
+  ) as Record<StatusLevel, number>;
+  for (const s of statuses) counts[s.status] += 1;
+
+  return jsonWithEtag(request, {
+    status: overall,
+    groups,
+    total: statuses.length,
+    counts,
+  });
+}
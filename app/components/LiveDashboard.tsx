@@ -0,0 +1,342 @@
+// app/components/LiveDashboard.tsx
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import {
+  collectTags,
+  filterStatuses,
+  sortStatuses,
+  viewToQuery,
+  type DashboardView,
+} from "@/lib/dashboardView";
+import type { StatusSnapshot } from "@/lib/poller";
+import type { ProviderGroup } from "@/lib/providerConfig";
+import type { UptimeHistory } from "@/lib/statusHistory";
+import {
+  getUpcomingMaintenance,
+  isAcknowledged,
+  rollupDashboard,
+  statusSeverity,
+  type DashboardRollup,
+} from "@/lib/statusLevels";
+import type { StatusSummary } from "@/lib/statusSources";
+import { MaintenancePanel } from "./MaintenancePanel";
+import { StatusCard } from "./StatusCard";
+import {
+  getBadgeClass,
+  getBannerClass,
+  getBannerTitle,
+  getStatusLabel,
+} from "./statusStyles";
+import { ViewToolbar } from "./ViewToolbar";
+
+const STREAM_URL = "/api/status/stream";
+const ALERTS_KEY = "status-dashboard:alerts";
+
+// ─────────────────────────────
+// ALERT PREFERENCE (localStorage)
+// ─────────────────────────────
+
+const alertListeners = new Set<() => void>();
+
+function subscribeAlerts(listener: () => void) {
+  alertListeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    alertListeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function readAlerts(): boolean {
+  return window.localStorage.getItem(ALERTS_KEY) === "on";
+}
+
+function writeAlerts(enabled: boolean) {
+  window.localStorage.setItem(ALERTS_KEY, enabled ? "on" : "off");
+  for (const listener of alertListeners) listener();
+}
+
+// ─────────────────────────────
+// ALERTS
+// ─────────────────────────────
+
+/**
+ * Providers whose level got worse between two snapshots. Transitions to or
+ * from "unknown" are ignored: a failed fetch isn't news. So are providers an
+ * operator has acknowledged at this level or worse.
+ */
+function findWorsened(
+  previous: Map<string, StatusSummary>,
+  changed: StatusSummary[]
+): StatusSummary[] {
+  return changed.filter((next) => {
+    const prev = previous.get(next.id);
+    return (
+      prev !== undefined &&
+      prev.status !== "unknown" &&
+      next.status !== "unknown" &&
+      !isAcknowledged(next) &&
+      statusSeverity(next.status) > statusSeverity(prev.status)
+    );
+  });
+}
+
+function beep() {
+  try {
+    const ctx = new AudioContext();
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = 880;
+    gain.gain.setValueAtTime(0.15, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.6);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start();
+    osc.stop(ctx.currentTime + 0.6);
+    osc.onended = () => void ctx.close();
+  } catch {
+    // Autoplay policy or no audio device; the visual update still happens
+  }
+}
+
+function raiseAlert(worsened: StatusSummary[]) {
+  beep();
+  if (typeof Notification === "undefined") return;
+  if (Notification.permission !== "granted") return;
+
+  for (const s of worsened) {
+    new Notification(`${s.name}: ${getStatusLabel(s.status)}`, {
+      body: s.message,
+      tag: `status-${s.id}`,
+    });
+  }
+}
+
+// ─────────────────────────────
+// VIEW
+// ─────────────────────────────
+
+/**
+ * Keep the address bar in step with the view so it can be bookmarked or
+ * shared. replaceState: filter tweaks shouldn't fill the back button.
+ */
+function syncViewUrl(view: DashboardView) {
+  const query = viewToQuery(view);
+  window.history.replaceState(
+    window.history.state,
+    "",
+    query ? `?${query}` : window.location.pathname
+  );
+}
+
+/**
+ * Groups in display order: config order, or worst first when sorting by
+ * severity.
+ */
+function orderGroups(
+  groups: ProviderGroup[],
+  rollup: DashboardRollup,
+  view: DashboardView
+): ProviderGroup[] {
+  if (view.sort !== "severity") return groups;
+  return [...groups].sort(
+    (a, b) =>
+      statusSeverity(rollup.groups[b.id]) - statusSeverity(rollup.groups[a.id])
+  );
+}
+
+// ─────────────────────────────
+// COMPONENTS
+// ─────────────────────────────
+
+function formatAgo(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"} ago`;
+  const minutes = Math.round(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"} ago`;
+}
+
+/**
+ * Cards for every group, kept current over SSE. Cards update in place as
+ * the stream reports changed providers, and the maintenance panel follows
+ * the same live statuses.
+ *
+ * The banner always covers every provider; the view only narrows the cards.
+ */
+export function LiveDashboard({
+  initial,
+  groups,
+  uptime,
+  initialView,
+}: {
+  initial: StatusSnapshot;
+  groups: ProviderGroup[];
+  uptime: Record<string, UptimeHistory>;
+  initialView: DashboardView;
+}) {
+  const [statuses, setStatuses] = useState(initial.statuses);
+  const [view, setView] = useState(initialView);
+  const [refreshedAt, setRefreshedAt] = useState(initial.at);
+  const [connected, setConnected] = useState(true);
+  const [now, setNow] = useState(() => Date.parse(initial.at));
+  const alerts = useSyncExternalStore(subscribeAlerts, readAlerts, () => false);
+
+  // Latest statuses by id, for diffing outside of render
+  const current = useRef(new Map(initial.statuses.map((s) => [s.id, s])));
+  const alertsRef = useRef(alerts);
+
+  useEffect(() => {
+    alertsRef.current = alerts;
+  }, [alerts]);
+
+  useEffect(() => {
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, []);
+
+  useEffect(() => {
+    const source = new EventSource(STREAM_URL);
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener("update", (event) => {
+      const { at, changed } = JSON.parse(
+        (event as MessageEvent<string>).data
+      ) as { at: string; changed: StatusSummary[] };
+
+      setConnected(true);
+      setRefreshedAt(at);
+      setNow(Date.now());
+      if (!changed.length) return;
+
+      const worsened = findWorsened(current.current, changed);
+      for (const s of changed) current.current.set(s.id, s);
+      setStatuses([...current.current.values()]);
+
+      if (worsened.length && alertsRef.current) raiseAlert(worsened);
+    });
+
+    return () => source.close();
+  }, []);
+
+  async function toggleAlerts() {
+    if (
+      !alerts &&
+      typeof Notification !== "undefined" &&
+      Notification.permission === "default"
+    ) {
+      // Sound works without it; only the desktop notification needs consent
+      await Notification.requestPermission();
+    }
+    writeAlerts(!alerts);
+  }
+
+  function changeView(next: DashboardView) {
+    setView(next);
+    syncViewUrl(next);
+  }
+
+  const rollup = rollupDashboard(statuses, groups, now);
+  const affected = statuses.filter(
+    (s) => s.status !== "operational" && s.status !== "unknown"
+  );
+  const visible = filterStatuses(statuses, view);
+
+  return (
+    <>
+      <section
+        role="status"
+        className={`mb-4 rounded-xl border px-4 py-3 ${getBannerClass(
+          rollup.overall
+        )}`}
+      >
+        <p className="text-lg font-semibold">
+          {getBannerTitle(rollup.overall)}
+        </p>
+        {affected.length > 0 && (
+          <p className="mt-1 text-xs opacity-80">
+            {affected
+              .map((s) => `${s.name}: ${getStatusLabel(s.status)}`)
+              .join(" · ")}
+          </p>
+        )}
+      </section>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6 text-xs text-slate-400">
+        <span>Last refreshed {formatAgo(now - Date.parse(refreshedAt))}</span>
+        <button
+          type="button"
+          onClick={toggleAlerts}
+          className="ml-auto px-2 py-1 rounded border border-slate-700 hover:border-slate-500"
+        >
+          Alerts: {alerts ? "on" : "off"}
+        </button>
+      </div>
+
+      <ViewToolbar
+        view={view}
+        groups={groups}
+        tags={collectTags(statuses)}
+        onChange={changeView}
+      />
+
+      {!connected && (
+        <div
+          role="status"
+          className="mb-6 rounded-lg border border-rose-900/60 bg-rose-950/40 px-3 py-2 text-xs text-rose-200"
+        >
+          Live updates disconnected – reconnecting. Statuses below may be out of
+          date.
+        </div>
+      )}
+
+      <MaintenancePanel windows={getUpcomingMaintenance(statuses, now)} />
+
+      {visible.length === 0 && (
+        <p className="py-10 text-center text-sm text-slate-400">
+          {view.problems && affected.length === 0
+            ? "All systems operational – nothing to show."
+            : "No providers match this view."}
+        </p>
+      )}
+
+      <div className="flex flex-col gap-8">
+        {orderGroups(groups, rollup, view).map((group) => {
+          const members = sortStatuses(
+            visible.filter((s) => s.group === group.id),
+            view.sort
+          );
+          if (!members.length) return null;
+
+          return (
+            <section key={group.id}>
+              <div className="flex items-center gap-2 mb-3">
+                <h2 className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                  {group.name}
+                </h2>
+                <span
+                  className={`text-[10px] px-1.5 rounded-full ${getBadgeClass(
+                    rollup.groups[group.id]
+                  )}`}
+                >
+                  {getStatusLabel(rollup.groups[group.id])}
+                </span>
+                {!group.critical && (
+                  <span className="text-[10px] text-slate-500">
+                    non-critical
+                  </span>
+                )}
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {members.map((s) => (
+                  <StatusCard key={s.id} summary={s} uptime={uptime[s.id]} />
+                ))}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+// app/components/MaintenancePanel.tsx
+import type { StatusMaintenance } from "@/lib/statusSources";
+import { RelativeTime } from "./RelativeTime";
+
+/**
+ * In-progress and upcoming maintenance windows across all providers.
+ */
+export function MaintenancePanel({
+  windows,
+}: {
+  windows: (StatusMaintenance & { provider: string })[];
+}) {
+  if (!windows.length) return null;
+
+  return (
+    <section className="mb-8 border border-sky-900/60 rounded-xl p-4 bg-sky-950/30">
+      <h2 className="text-sm font-medium uppercase tracking-wide text-sky-300 mb-3">
+        Maintenance – now and next 7 days
+      </h2>
+      <ul className="space-y-2 text-xs text-slate-200">
+        {windows.map((m) => (
+          <li
+            key={`${m.provider}-${m.id}`}
+            className="flex flex-wrap items-baseline gap-x-2"
+          >
+            <span className="font-medium">{m.provider}</span>
+            {m.link ? (
+              <a
+                href={m.link}
+                target="_blank"
+                rel="noreferrer"
+                className="underline underline-offset-2 hover:no-underline"
+              >
+                {m.title}
+              </a>
+            ) : (
+              <span>{m.title}</span>
+            )}
+            <span className="text-[11px] text-slate-400">
+              {m.state === "in_progress" ? "In progress" : "Scheduled"}
+              {m.scheduledFor && (
+                <>
+                  {" · "}
+                  <RelativeTime iso={m.scheduledFor} />
+                </>
+              )}
+              {m.scheduledUntil && (
+                <>
+                  {" → "}
+                  <RelativeTime iso={m.scheduledUntil} />
+                </>
+              )}
+            </span>
+            {m.components && m.components.length > 0 && (
+              <span className="text-[11px] text-slate-500">
+                ({m.components.join(", ")})
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,58 @@
+// app/components/RelativeTime.tsx
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { formatAbsoluteTime, formatRelativeTime } from "./statusStyles";
+
+// Relative times only change by the minute; one shared timer keeps every
+// <RelativeTime> on the page in step.
+const TICK_MS = 15_000;
+
+const clockListeners = new Set<() => void>();
+let clockNow = Date.now();
+let clockTimer: ReturnType<typeof setInterval> | undefined;
+
+function subscribeClock(listener: () => void) {
+  clockListeners.add(listener);
+  if (!clockTimer) {
+    clockNow = Date.now();
+    clockTimer = setInterval(() => {
+      clockNow = Date.now();
+      for (const l of clockListeners) l();
+    }, TICK_MS);
+  }
+  return () => {
+    clockListeners.delete(listener);
+    if (!clockListeners.size) {
+      clearInterval(clockTimer);
+      clockTimer = undefined;
+    }
+  };
+}
+
+/**
+ * An ISO timestamp as "12 min ago", with the absolute time in the viewer's
+ * timezone on hover. The server (and hydration) render a fixed UTC time,
+ * since neither the viewer's clock nor their timezone is known there.
+ */
+export function RelativeTime({ iso }: { iso: string }) {
+  const now = useSyncExternalStore(
+    subscribeClock,
+    () => clockNow,
+    () => null
+  );
+  const time = Date.parse(iso);
+  if (Number.isNaN(time)) return <>{iso}</>;
+
+  // "2026-10-19T08:05:00.000Z" → "2026-10-19 08:05 UTC"
+  const utc = `${new Date(time)
+    .toISOString()
+    .slice(0, 16)
+    .replace("T", " ")} UTC`;
+
+  return (
+    <time dateTime={iso} title={now === null ? utc : formatAbsoluteTime(time)}>
+      {now === null ? utc : formatRelativeTime(time, now)}
+    </time>
+  );
+}
@@ -0,0 +1,229 @@
+// app/components/StatusCard.tsx
+import Link from "next/link";
+import type { UptimeHistory } from "@/lib/statusHistory";
+import type { StatusComponent, StatusSummary } from "@/lib/statusSources";
+import { RelativeTime } from "./RelativeTime";
+import {
+  formatAvailability,
+  getBadgeClass,
+  getStatusLabel,
+  getUptimeBarClass,
+} from "./statusStyles";
+
+export function StatusCard({
+  summary,
+  uptime,
+}: {
+  summary: StatusSummary;
+  uptime?: UptimeHistory;
+}) {
+  const badgeClass = getBadgeClass(summary.status);
+  const label = getStatusLabel(summary.status);
+
+  return (
+    <article className="border border-slate-800 rounded-xl p-4 bg-slate-900/60 backdrop-blur flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">
+          <Link
+            href={`/provider/${summary.id}`}
+            className="hover:underline underline-offset-2"
+          >
+            {summary.name}
+          </Link>
+          {summary.critical === false && (
+            <span className="ml-1.5 text-[10px] font-normal text-slate-500">
+              non-critical
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-1">
+          {summary.stale && (
+            <span
+              title={`Last answer ${summary.fetchedAt}`}
+              className="text-xs px-2 py-1 rounded-full bg-slate-500/15 text-slate-300 border border-slate-400/40"
+            >
+              Stale
+            </span>
+          )}
+          {summary.inMaintenance && (
+            <span className="text-xs px-2 py-1 rounded-full bg-sky-500/15 text-sky-300 border border-sky-400/40">
+              Maintenance
+            </span>
+          )}
+          <span className={`text-xs px-2 py-1 rounded-full ${badgeClass}`}>
+            {label}
+          </span>
+        </div>
+      </div>
+
+      {summary.message && (
+        <p className="text-xs text-slate-300">{summary.message}</p>
+      )}
+
+      {(summary.override || summary.acknowledgement || summary.note) && (
+        <OperatorAnnotations summary={summary} />
+      )}
+
+      {summary.error && (
+        <p className="text-[11px] text-slate-400">
+          Feed unreachable, first failed{" "}
+          <RelativeTime iso={summary.error.since} />
+          {summary.status !== "unknown" && summary.fetchedAt && (
+            <>
+              {" "}
+              – showing data from <RelativeTime iso={summary.fetchedAt} />
+            </>
+          )}
+        </p>
+      )}
+
+      {summary.latestItems && summary.latestItems.length > 0 && (
+        <ul className="mt-1 space-y-1 text-xs text-slate-200">
+          {summary.latestItems.map((item, idx) => (
+            <li key={idx}>
+              {item.link ? (
+                <a
+                  href={item.link}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="underline underline-offset-2 hover:no-underline"
+                >
+                  {item.title}
+                </a>
+              ) : (
+                <span>{item.title}</span>
+              )}
+              {item.date && (
+                <div className="text-[10px] text-slate-400">
+                  <RelativeTime iso={item.date} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {summary.components && summary.components.length > 0 && (
+        <ComponentList components={summary.components} />
+      )}
+
+      {uptime && <UptimeBar uptime={uptime} />}
+
+      <div className="mt-1 flex items-center justify-between text-[11px] text-slate-400">
+        {summary.lastUpdated && (
+          <span>
+            Last update: <RelativeTime iso={summary.lastUpdated} />
+            {summary.responseTimeMs !== undefined &&
+              ` · ${summary.responseTimeMs} ms`}
+          </span>
+        )}
+        {summary.detailUrl && (
+          <a
+            href={summary.detailUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="underline hover:no-underline"
+          >
+            View status page
+          </a>
+        )}
+      </div>
+    </article>
+  );
+}
+
+function OperatorAnnotations({ summary }: { summary: StatusSummary }) {
+  const { override, acknowledgement, note } = summary;
+
+  return (
+    <ul className="rounded-lg border border-violet-400/30 bg-violet-500/10 px-2 py-1.5 space-y-1 text-[11px] text-violet-100">
+      {override && (
+        <li>
+          <span className="font-medium">
+            Overridden to {getStatusLabel(override.status)}
+          </span>{" "}
+          by {override.by} <RelativeTime iso={override.at} />, expires{" "}
+          <RelativeTime iso={override.expiresAt} />
+          {override.reason && ` – ${override.reason}`}
+          {summary.feedStatus && (
+            <span className="text-violet-300/80">
+              {" "}
+              (feed: {getStatusLabel(summary.feedStatus)})
+            </span>
+          )}
+        </li>
+      )}
+      {acknowledgement && (
+        <li>
+          <span className="font-medium">Acknowledged</span> by{" "}
+          {acknowledgement.by} <RelativeTime iso={acknowledgement.at} />
+          {acknowledgement.incidentTitle &&
+            ` – ${acknowledgement.incidentTitle}`}
+        </li>
+      )}
+      {note && (
+        <li>
+          <span className="font-medium">Note</span> from {note.by}{" "}
+          <RelativeTime iso={note.at} />:{" "}
+          <span className="whitespace-pre-line">{note.text}</span>
+        </li>
+      )}
+    </ul>
+  );
+}
+
+function ComponentList({ components }: { components: StatusComponent[] }) {
+  const affected = components.filter((c) => c.status !== "operational");
+
+  return (
+    <details className="text-xs text-slate-300">
+      <summary className="cursor-pointer select-none text-slate-400 hover:text-slate-200">
+        Components ({components.length}
+        {affected.length > 0 && `, ${affected.length} affected`})
+      </summary>
+      <ul className="mt-1 space-y-0.5">
+        {components.map((c) => (
+          <li key={c.id} className="flex items-center justify-between gap-2">
+            <span className="truncate">
+              {c.group && <span className="text-slate-500">{c.group} / </span>}
+              {c.name}
+            </span>
+            <span
+              className={`shrink-0 text-[10px] px-1.5 rounded-full ${getBadgeClass(
+                c.status
+              )}`}
+            >
+              {getStatusLabel(c.status)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+function UptimeBar({ uptime }: { uptime: UptimeHistory }) {
+  return (
+    <div className="mt-1">
+      <div className="flex h-4 gap-px">
+        {uptime.days.map((day) => (
+          <div
+            key={day.date}
+            title={`${day.date}: ${
+              day.status ? getStatusLabel(day.status) : "No data"
+            }`}
+            className={`flex-1 rounded-[1px] ${getUptimeBarClass(day.status)}`}
+          />
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-[10px] text-slate-400">
+        <span>90 days ago</span>
+        <span>
+          30d {formatAvailability(uptime.availability30d)} · 90d{" "}
+          {formatAvailability(uptime.availability90d)}
+        </span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+}
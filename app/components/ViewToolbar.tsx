@@ -0,0 +1,161 @@
+// app/components/ViewToolbar.tsx
+"use client";
+
+import type { ReactNode } from "react";
+import {
+  DASHBOARD_SORT_LABELS,
+  DASHBOARD_SORTS,
+  DEFAULT_VIEW,
+  isDefaultView,
+  type DashboardSort,
+  type DashboardView,
+} from "@/lib/dashboardView";
+import type { ProviderGroup } from "@/lib/providerConfig";
+import { STATUS_ORDER } from "@/lib/statusLevels";
+import { getStatusLabel } from "./statusStyles";
+
+// Add or remove one value from a multi-select filter
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+}
+
+function Chip({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={active}
+      onClick={onClick}
+      className={`px-2 py-0.5 rounded-full border ${
+        active
+          ? "border-sky-400/60 bg-sky-500/15 text-sky-200"
+          : "border-slate-700 hover:border-slate-500"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function ChipRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="w-12 text-slate-500">{label}</span>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Search box, filter chips and sort order for the live dashboard.
+ */
+export function ViewToolbar({
+  view,
+  groups,
+  tags,
+  onChange,
+}: {
+  view: DashboardView;
+  groups: ProviderGroup[];
+  tags: string[];
+  onChange: (view: DashboardView) => void;
+}) {
+  return (
+    <div className="mb-6 flex flex-col gap-2 text-xs text-slate-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={view.q}
+          onChange={(e) => onChange({ ...view, q: e.target.value })}
+          placeholder="Search providers and incidents"
+          aria-label="Search providers and incidents"
+          className="min-w-56 flex-1 rounded border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100 placeholder:text-slate-500 focus:border-slate-500 focus:outline-none"
+        />
+        <label className="flex items-center gap-1.5">
+          Sort
+          <select
+            value={view.sort}
+            onChange={(e) =>
+              onChange({ ...view, sort: e.target.value as DashboardSort })
+            }
+            className="rounded border border-slate-700 bg-slate-900 px-1.5 py-1 text-slate-100"
+          >
+            {DASHBOARD_SORTS.map((sort) => (
+              <option key={sort} value={sort}>
+                {DASHBOARD_SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Chip
+          active={view.problems}
+          onClick={() => onChange({ ...view, problems: !view.problems })}
+        >
+          Problems only
+        </Chip>
+        {!isDefaultView(view) && (
+          <button
+            type="button"
+            onClick={() => onChange(DEFAULT_VIEW)}
+            className="underline hover:no-underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <ChipRow label="Status">
+        {STATUS_ORDER.map((level) => (
+          <Chip
+            key={level}
+            active={view.statuses.includes(level)}
+            onClick={() =>
+              onChange({ ...view, statuses: toggle(view.statuses, level) })
+            }
+          >
+            {getStatusLabel(level)}
+          </Chip>
+        ))}
+      </ChipRow>
+
+      <ChipRow label="Group">
+        {groups.map((group) => (
+          <Chip
+            key={group.id}
+            active={view.groups.includes(group.id)}
+            onClick={() =>
+              onChange({ ...view, groups: toggle(view.groups, group.id) })
+            }
+          >
+            {group.name}
+          </Chip>
+        ))}
+      </ChipRow>
+
+      {tags.length > 0 && (
+        <ChipRow label="Tag">
+          {tags.map((tag) => (
+            <Chip
+              key={tag}
+              active={view.tags.includes(tag)}
+              onClick={() =>
+                onChange({ ...view, tags: toggle(view.tags, tag) })
+              }
+            >
+              #{tag}
+            </Chip>
+          ))}
+        </ChipRow>
+      )}
+    </div>
+  );
+}
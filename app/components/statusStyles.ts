@@ -0,0 +1,134 @@
+// app/components/statusStyles.ts
+// Badge / label helpers shared by server and client components.
+import { STATUS_LABELS, type StatusLevel } from "@/lib/statusLevels";
+import type { StatusIncident } from "@/lib/statusSources";
+
+export function getBadgeClass(status: StatusLevel): string {
+  switch (status) {
+    case "unknown":
+      return "bg-slate-500/15 text-slate-300 border border-dashed border-slate-400/40";
+    case "operational":
+      return "bg-emerald-500/15 text-emerald-300 border border-emerald-400/40";
+    case "degraded":
+      return "bg-amber-500/15 text-amber-300 border border-amber-400/40";
+    case "partial_outage":
+      return "bg-orange-500/15 text-orange-300 border border-orange-400/40";
+    case "major_outage":
+      return "bg-rose-500/15 text-rose-300 border border-rose-400/40";
+    default:
+      // should never hit; treat anything unexpected as degraded
+      return "bg-amber-500/15 text-amber-300 border border-amber-400/40";
+  }
+}
+
+export function getBannerClass(status: StatusLevel): string {
+  switch (status) {
+    case "operational":
+      return "bg-emerald-950/50 border-emerald-800/60 text-emerald-200";
+    case "degraded":
+      return "bg-amber-950/50 border-amber-800/60 text-amber-200";
+    case "partial_outage":
+      return "bg-orange-950/50 border-orange-800/60 text-orange-200";
+    case "major_outage":
+      return "bg-rose-950/50 border-rose-800/60 text-rose-200";
+    default:
+      return "bg-slate-900/60 border-slate-700 text-slate-300";
+  }
+}
+
+// Headline for the global banner
+const BANNER_TITLES: Record<StatusLevel, string> = {
+  unknown: "Status unknown",
+  operational: "All systems operational",
+  degraded: "Some services degraded",
+  partial_outage: "Partial outage",
+  major_outage: "Major outage",
+};
+
+export function getBannerTitle(status: StatusLevel): string {
+  return BANNER_TITLES[status] ?? BANNER_TITLES.degraded;
+}
+
+export function getStatusLabel(status: StatusLevel): string {
+  return STATUS_LABELS[status] ?? STATUS_LABELS.degraded;
+}
+
+export function getUptimeBarClass(status: StatusLevel | null): string {
+  switch (status) {
+    case "operational":
+      return "bg-emerald-500/70";
+    case "degraded":
+      return "bg-amber-400/70";
+    case "partial_outage":
+      return "bg-orange-500/70";
+    case "major_outage":
+      return "bg-rose-500/70";
+    default:
+      // no data / unreachable
+      return "bg-slate-700/60";
+  }
+}
+
+export function formatAvailability(value: number | null): string {
+  return value === null ? "n/a" : `${(value * 100).toFixed(2)}%`;
+}
+
+// 45 min → "45m", 135 min → "2h 15m", 76 h → "3d 4h", 48 h → "2d"
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24)
+    return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+/**
+ * "Lasted 2h 15m" for resolved incidents, "Ongoing for 45m" for open ones;
+ * null when the source gave no start time.
+ */
+export function getIncidentDuration(
+  incident: StatusIncident,
+  now: number = Date.now()
+): string | null {
+  const started = Date.parse(incident.startedAt ?? "");
+  const ended = incident.resolvedAt ? Date.parse(incident.resolvedAt) : now;
+  if (!Number.isFinite(started) || !Number.isFinite(ended)) return null;
+  return `${incident.resolvedAt ? "Lasted" : "Ongoing for"} ${formatDuration(
+    ended - started
+  )}`;
+}
+
+// 40 s ago → "just now", 12 min ago → "12 min ago", 26 h ago → "1 d ago";
+// future times read "in 3 h"
+export function formatRelativeTime(
+  time: number,
+  now: number = Date.now()
+): string {
+  const diff = now - time;
+  const minutes = Math.round(Math.abs(diff) / 60000);
+  if (minutes < 1) return "just now";
+
+  const hours = Math.round(minutes / 60);
+  const days = Math.round(minutes / (60 * 24));
+  const amount =
+    minutes < 60 ? `${minutes} min` : hours < 24 ? `${hours} h` : `${days} d`;
+  return diff >= 0 ? `${amount} ago` : `in ${amount}`;
+}
+
+/**
+ * Date and time with its zone abbreviation, in `timeZone` or the runtime's
+ * (the viewer's, in the browser).
+ */
+export function formatAbsoluteTime(time: number, timeZone?: string): string {
+  return new Intl.DateTimeFormat(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+    timeZoneName: "short",
+  }).format(time);
+}
@@ -0,0 +1,63 @@
+// app/embed/route.ts
+import { withEtag } from "@/lib/apiResponse";
+import { renderWidget, type WidgetTheme } from "@/lib/embedWidget";
+import { getAllStatuses } from "@/lib/poller";
+import { getProviderConfig } from "@/lib/providerConfig";
+
+export const dynamic = "force-dynamic";
+
+// Scripts and remote resources are never needed; framing from anywhere is
+// the point of the widget.
+const CONTENT_SECURITY_POLICY =
+  "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors *";
+
+function listParam(params: URLSearchParams, name: string): string[] {
+  return (params.get(name) ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+// GET /embed?providers=a,b&groups=x&theme=light&title=... → HTML widget for
+// an <iframe>. Without providers or groups, every provider is listed.
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const { settings, groups, providers } = getProviderConfig();
+  const providerIds = listParam(url.searchParams, "providers");
+  const groupIds = listParam(url.searchParams, "groups");
+
+  const unknown = [
+    ...providerIds.filter((id) => !providers.some((p) => p.id === id)),
+    ...groupIds.filter((id) => !groups.some((g) => g.id === id)),
+  ];
+  if (unknown.length) {
+    return new Response(`Unknown provider or group: ${unknown.join(", ")}`, {
+      status: 404,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  const everything = !providerIds.length && !groupIds.length;
+  const statuses = (await getAllStatuses()).filter(
+    (s) =>
+      everything ||
+      providerIds.includes(s.id) ||
+      (s.group !== undefined && groupIds.includes(s.group))
+  );
+
+  const theme: WidgetTheme =
+    url.searchParams.get("theme") === "light" ? "light" : "dark";
+  const html = renderWidget(statuses, {
+    title: url.searchParams.get("title") || "Vendor status",
+    theme,
+    refreshSeconds: settings.poll.intervalSeconds,
+    baseUrl: url.origin,
+  });
+
+  return withEtag(request, html, "text/html; charset=utf-8", {
+    headers: { "Content-Security-Policy": CONTENT_SECURITY_POLICY },
+  });
+}
@@ -0,0 +1,280 @@
+// app/incidents/page.tsx
+import Link from "next/link";
+import {
+  getIncidentDurationMs,
+  getIncidentStats,
+  parseIncidentQuery,
+  queryIncidents,
+  type LoggedIncident,
+  type ProviderIncidentStats,
+} from "@/lib/incidentLog";
+import { getProviderConfig } from "@/lib/providerConfig";
+import { INCIDENT_PHASE_LABELS } from "@/lib/statusSources";
+import { RelativeTime } from "../components/RelativeTime";
+import {
+  formatDuration,
+  getBadgeClass,
+  getStatusLabel,
+} from "../components/statusStyles";
+
+export const dynamic = "force-dynamic";
+
+// Page params → the same query string the export endpoints take
+function toSearchParams(
+  params: Record<string, string | string[] | undefined>
+): URLSearchParams {
+  const result = new URLSearchParams();
+  for (const name of ["provider", "from", "to", "q"]) {
+    const value = params[name];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first) result.set(name, first);
+  }
+  return result;
+}
+
+export default async function IncidentsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = toSearchParams(await searchParams);
+  const { providers } = getProviderConfig();
+  const { query, issues } = parseIncidentQuery(
+    params,
+    providers.map((p) => p.id)
+  );
+  const incidents = issues.length ? [] : await queryIncidents(query);
+  const stats = getIncidentStats(incidents);
+  const exportQuery = params.toString() ? `${params}&` : "";
+
+  return (
+    <main className="min-h-screen flex justify-center bg-slate-950 text-slate-100 py-10 px-4">
+      <div className="w-full max-w-5xl">
+        <header className="mb-6">
+          <h1 className="text-3xl font-semibold mb-2">Incident log</h1>
+          <p className="text-sm text-slate-400">
+            Every incident our providers have reported, kept after it leaves
+            their status pages.{" "}
+            <Link href="/" className="underline hover:no-underline">
+              Provider dashboard
+            </Link>
+          </p>
+        </header>
+
+        <form
+          method="get"
+          className="mb-6 flex flex-wrap items-end gap-3 text-xs text-slate-400"
+        >
+          <label className="flex flex-col gap-1">
+            Provider
+            <select
+              name="provider"
+              defaultValue={params.get("provider") ?? ""}
+              className="rounded border border-slate-700 bg-slate-900 px-1.5 py-1 text-slate-100"
+            >
+              <option value="">All providers</option>
+              {providers.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            From
+            <input
+              type="date"
+              name="from"
+              defaultValue={params.get("from") ?? ""}
+              className="rounded border border-slate-700 bg-slate-900 px-1.5 py-1 text-slate-100"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            To
+            <input
+              type="date"
+              name="to"
+              defaultValue={params.get("to") ?? ""}
+              className="rounded border border-slate-700 bg-slate-900 px-1.5 py-1 text-slate-100"
+            />
+          </label>
+          <label className="flex min-w-48 flex-1 flex-col gap-1">
+            Search
+            <input
+              type="search"
+              name="q"
+              defaultValue={params.get("q") ?? ""}
+              placeholder="Title, provider or component"
+              className="rounded border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100 placeholder:text-slate-500"
+            />
+          </label>
+          <button
+            type="submit"
+            className="px-3 py-1 rounded border border-slate-700 text-slate-200 hover:border-slate-500"
+          >
+            Filter
+          </button>
+        </form>
+
+        {issues.length > 0 && (
+          <div
+            role="alert"
+            className="mb-6 rounded-lg border border-rose-900/60 bg-rose-950/40 px-3 py-2 text-xs text-rose-200"
+          >
+            {issues.join("; ")}
+          </div>
+        )}
+
+        <p className="mb-6 flex flex-wrap gap-x-3 gap-y-1 text-xs text-slate-400">
+          <span>Export:</span>
+          <a
+            href={`/api/incidents?${exportQuery}format=csv`}
+            className="underline hover:no-underline"
+          >
+            Incidents (CSV)
+          </a>
+          <a
+            href={`/api/incidents?${exportQuery}format=json`}
+            className="underline hover:no-underline"
+          >
+            Incidents (JSON)
+          </a>
+          <a
+            href={`/api/incidents/mttr?${exportQuery}format=csv`}
+            className="underline hover:no-underline"
+          >
+            MTTR per provider (CSV)
+          </a>
+        </p>
+
+        {stats.length > 0 && <StatsTable stats={stats} />}
+
+        {incidents.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            No incidents logged for this selection.
+          </p>
+        ) : (
+          <IncidentTable incidents={incidents} />
+        )}
+      </div>
+    </main>
+  );
+}
+
+function StatsTable({ stats }: { stats: ProviderIncidentStats[] }) {
+  return (
+    <section className="mb-8">
+      <h2 className="text-sm font-medium uppercase tracking-wide text-slate-400 mb-3">
+        Per provider
+      </h2>
+      <table className="w-full text-xs">
+        <thead className="text-left text-slate-400">
+          <tr>
+            <th className="py-1 pr-3 font-normal">Provider</th>
+            <th className="py-1 pr-3 font-normal">Incidents</th>
+            <th className="py-1 pr-3 font-normal">Resolved</th>
+            <th className="py-1 pr-3 font-normal">MTTR</th>
+            <th className="py-1 font-normal">Total time</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-200">
+          {stats.map((s) => (
+            <tr key={s.provider} className="border-t border-slate-800">
+              <td className="py-1.5 pr-3">
+                <Link
+                  href={`/provider/${s.provider}`}
+                  className="hover:underline underline-offset-2"
+                >
+                  {s.providerName}
+                </Link>
+              </td>
+              <td className="py-1.5 pr-3">{s.incidents}</td>
+              <td className="py-1.5 pr-3">{s.resolved}</td>
+              <td className="py-1.5 pr-3">
+                {s.mttrMs === null ? "–" : formatDuration(s.mttrMs)}
+              </td>
+              <td className="py-1.5">
+                {s.resolved ? formatDuration(s.totalMs) : "–"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function IncidentTable({ incidents }: { incidents: LoggedIncident[] }) {
+  return (
+    <section>
+      <h2 className="text-sm font-medium uppercase tracking-wide text-slate-400 mb-3">
+        Incidents ({incidents.length})
+      </h2>
+      <table className="w-full text-xs">
+        <thead className="text-left text-slate-400">
+          <tr>
+            <th className="py-1 pr-3 font-normal">Provider</th>
+            <th className="py-1 pr-3 font-normal">Incident</th>
+            <th className="py-1 pr-3 font-normal">Started</th>
+            <th className="py-1 pr-3 font-normal">Duration</th>
+            <th className="py-1 font-normal">Max impact</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-200 align-top">
+          {incidents.map((incident) => (
+            <IncidentRow
+              key={`${incident.provider}-${incident.id}`}
+              incident={incident}
+            />
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function IncidentRow({ incident }: { incident: LoggedIncident }) {
+  const duration = getIncidentDurationMs(incident);
+
+  return (
+    <tr className="border-t border-slate-800">
+      <td className="py-1.5 pr-3 whitespace-nowrap">{incident.providerName}</td>
+      <td className="py-1.5 pr-3">
+        {incident.link ? (
+          <a
+            href={incident.link}
+            target="_blank"
+            rel="noreferrer"
+            className="underline underline-offset-2 hover:no-underline"
+          >
+            {incident.title}
+          </a>
+        ) : (
+          incident.title
+        )}
+        {incident.components.length > 0 && (
+          <div className="text-[11px] text-slate-400">
+            {incident.components.join(", ")}
+          </div>
+        )}
+      </td>
+      <td className="py-1.5 pr-3 whitespace-nowrap">
+        <RelativeTime iso={incident.startedAt} />
+      </td>
+      <td className="py-1.5 pr-3 whitespace-nowrap">
+        {duration === null
+          ? INCIDENT_PHASE_LABELS[incident.phase]
+          : formatDuration(duration)}
+      </td>
+      <td className="py-1.5">
+        <span
+          className={`text-[10px] px-1.5 rounded-full ${getBadgeClass(
+            incident.maxImpact
+          )}`}
+        >
+          {getStatusLabel(incident.maxImpact)}
+        </span>
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,26 @@
+// app/metrics/route.ts
+import {
+  METRICS_CONTENT_TYPES,
+  renderMetrics,
+  type MetricsFormat,
+} from "@/lib/metrics";
+import { getAllStatuses } from "@/lib/poller";
+
+export const dynamic = "force-dynamic";
+
+// GET /metrics → Prometheus text format, or OpenMetrics when the scraper
+// asks for it in Accept
+export async function GET(request: Request) {
+  const format: MetricsFormat = request.headers
+    .get("accept")
+    ?.includes("application/openmetrics-text")
+    ? "openmetrics"
+    : "prometheus";
+
+  return new Response(renderMetrics(await getAllStatuses(), format), {
+    headers: {
+      "Content-Type": METRICS_CONTENT_TYPES[format],
+      "Cache-Control": "no-store",
+    },
+  });
+}
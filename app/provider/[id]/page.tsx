@@ -0,0 +1,180 @@
+// app/provider/[id]/page.tsx
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getCachedStatus } from "@/lib/poller";
+import { getProvider } from "@/lib/providerConfig";
+import {
+  getIncidentHistory,
+  INCIDENT_PHASE_LABELS,
+  type StatusIncident,
+} from "@/lib/statusSources";
+import { RelativeTime } from "../../components/RelativeTime";
+import { StatusCard } from "../../components/StatusCard";
+import {
+  getBadgeClass,
+  getIncidentDuration,
+  getStatusLabel,
+} from "../../components/statusStyles";
+
+export const dynamic = "force-dynamic";
+
+export default async function ProviderPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const provider = getProvider(id);
+  const summary = provider && (await getCachedStatus(id));
+  if (!provider || !summary) notFound();
+
+  const history = await getIncidentHistory(provider);
+  const incidents = history ?? summary.incidents ?? [];
+  const active = incidents.filter((i) => i.phase !== "resolved");
+  const recent = incidents.filter((i) => i.phase === "resolved");
+
+  return (
+    <main className="min-h-screen flex justify-center bg-slate-950 text-slate-100 py-10 px-4">
+      <div className="w-full max-w-3xl">
+        <header className="mb-6">
+          <p className="text-sm text-slate-400 mb-2">
+            <Link href="/" className="underline hover:no-underline">
+              Dashboard
+            </Link>
+          </p>
+          <h1 className="text-3xl font-semibold">{summary.name}</h1>
+        </header>
+
+        <div className="mb-8">
+          <StatusCard summary={summary} />
+        </div>
+
+        <IncidentSection
+          title="Active incidents"
+          empty="No active incidents."
+          incidents={active}
+        />
+        <IncidentSection
+          title="Recent incidents"
+          empty="No recent incidents reported."
+          incidents={recent}
+        />
+
+        <p className="text-sm text-slate-400">
+          <Link
+            href={`/incidents?provider=${summary.id}`}
+            className="underline hover:no-underline"
+          >
+            Full incident log and MTTR
+          </Link>
+        </p>
+      </div>
+    </main>
+  );
+}
+
+function IncidentSection({
+  title,
+  empty,
+  incidents,
+}: {
+  title: string;
+  empty: string;
+  incidents: StatusIncident[];
+}) {
+  return (
+    <section className="mb-8">
+      <h2 className="text-sm font-medium uppercase tracking-wide text-slate-400 mb-3">
+        {title}
+      </h2>
+      {incidents.length === 0 ? (
+        <p className="text-sm text-slate-400">{empty}</p>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {incidents.map((incident) => (
+            <IncidentDetail key={incident.id} incident={incident} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function IncidentDetail({ incident }: { incident: StatusIncident }) {
+  const duration = getIncidentDuration(incident);
+
+  return (
+    <article className="border border-slate-800 rounded-xl p-4 bg-slate-900/60 flex flex-col gap-2">
+      <div className="flex items-start justify-between gap-3">
+        <h3 className="font-medium">
+          {incident.link ? (
+            <a
+              href={incident.link}
+              target="_blank"
+              rel="noreferrer"
+              className="underline underline-offset-2 hover:no-underline"
+            >
+              {incident.title}
+            </a>
+          ) : (
+            incident.title
+          )}
+        </h3>
+        <span
+          className={`shrink-0 text-xs px-2 py-1 rounded-full ${getBadgeClass(
+            incident.impact
+          )}`}
+        >
+          {getStatusLabel(incident.impact)}
+        </span>
+      </div>
+
+      <p className="text-[11px] text-slate-400">
+        {INCIDENT_PHASE_LABELS[incident.phase]}
+        {incident.startedAt && (
+          <>
+            {" · Started "}
+            <RelativeTime iso={incident.startedAt} />
+          </>
+        )}
+        {incident.resolvedAt && (
+          <>
+            {" · Resolved "}
+            <RelativeTime iso={incident.resolvedAt} />
+          </>
+        )}
+        {duration && ` · ${duration}`}
+      </p>
+
+      {incident.components && incident.components.length > 0 && (
+        <p className="text-xs text-slate-300">
+          Affected: {incident.components.join(", ")}
+        </p>
+      )}
+
+      {incident.updates && incident.updates.length > 0 && (
+        <ol className="mt-1 border-l border-slate-700 pl-4 space-y-3">
+          {incident.updates.map((update, idx) => (
+            <li key={idx} className="text-xs">
+              <div className="flex items-baseline gap-2">
+                <span className="font-medium text-slate-200">
+                  {INCIDENT_PHASE_LABELS[update.phase]}
+                </span>
+                {update.at && (
+                  <span className="text-[10px] text-slate-400">
+                    <RelativeTime iso={update.at} />
+                  </span>
+                )}
+              </div>
+              {update.body && (
+                <p className="mt-0.5 whitespace-pre-line text-slate-300">
+                  {update.body}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </article>
+  );
+}
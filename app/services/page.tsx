@@ -0,0 +1,142 @@
+// app/services/page.tsx
+import Link from "next/link";
+import {
+  evaluateServices,
+  type ServiceCause,
+  type ServiceStatus,
+} from "@/lib/businessServices";
+import { getAllStatuses } from "@/lib/poller";
+import { INCIDENT_PHASE_LABELS } from "@/lib/statusSources";
+import { getBadgeClass, getStatusLabel } from "../components/statusStyles";
+
+export const dynamic = "force-dynamic";
+
+export default async function ServicesPage() {
+  const services = evaluateServices(await getAllStatuses());
+  const names = new Map(services.map((s) => [s.id, s.name]));
+
+  return (
+    <main className="min-h-screen flex justify-center bg-slate-950 text-slate-100 py-10 px-4">
+      <div className="w-full max-w-5xl">
+        <header className="mb-8">
+          <h1 className="text-3xl font-semibold mb-2">Business services</h1>
+          <p className="text-sm text-slate-400">
+            Our services and the vendor problems affecting them, derived from
+            the dependencies in config/services.json.{" "}
+            <Link href="/" className="underline hover:no-underline">
+              Provider dashboard
+            </Link>
+          </p>
+        </header>
+
+        {services.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            No business services configured.
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {services.map((service) => (
+              <ServiceCard key={service.id} service={service} names={names} />
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
+function ServiceCard({
+  service,
+  names,
+}: {
+  service: ServiceStatus;
+  names: Map<string, string>;
+}) {
+  return (
+    <article className="border border-slate-800 rounded-xl p-4 bg-slate-900/60 flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <h2 className="font-medium">{service.name}</h2>
+        <span
+          className={`text-xs px-2 py-1 rounded-full ${getBadgeClass(
+            service.status
+          )}`}
+        >
+          {getStatusLabel(service.status)}
+        </span>
+      </div>
+
+      {service.description && (
+        <p className="text-xs text-slate-400">{service.description}</p>
+      )}
+
+      {service.causes.length > 0 ? (
+        <ul className="space-y-2 text-xs text-slate-200">
+          {service.causes.map((cause) => (
+            <CauseItem
+              key={cause.provider}
+              cause={cause}
+              via={cause.via && names.get(cause.via)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-300">No known vendor problems</p>
+      )}
+    </article>
+  );
+}
+
+function CauseItem({ cause, via }: { cause: ServiceCause; via?: string }) {
+  return (
+    <li>
+      <div className="flex flex-wrap items-baseline gap-x-2">
+        <Link
+          href={`/provider/${cause.provider}`}
+          className="font-medium underline underline-offset-2 hover:no-underline"
+        >
+          {cause.name}
+        </Link>
+        <span
+          className={`text-[10px] px-1.5 rounded-full ${getBadgeClass(
+            cause.status
+          )}`}
+        >
+          {getStatusLabel(cause.status)}
+        </span>
+        {via && <span className="text-[11px] text-slate-500">via {via}</span>}
+      </div>
+
+      {cause.components && cause.components.length > 0 && (
+        <p className="text-[11px] text-slate-400">
+          Components: {cause.components.join(", ")}
+        </p>
+      )}
+
+      {cause.incidents.length > 0 ? (
+        <ul className="mt-1 space-y-0.5 text-[11px] text-slate-300">
+          {cause.incidents.map((incident) => (
+            <li key={incident.id}>
+              {INCIDENT_PHASE_LABELS[incident.phase]}:{" "}
+              {incident.link ? (
+                <a
+                  href={incident.link}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="underline underline-offset-2 hover:no-underline"
+                >
+                  {incident.title}
+                </a>
+              ) : (
+                incident.title
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        cause.message && (
+          <p className="text-[11px] text-slate-300">{cause.message}</p>
+        )
+      )}
+    </li>
+  );
+}
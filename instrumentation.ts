@@ -0,0 +1,16 @@
+// instrumentation.ts
+// Runs once when the Next.js server starts.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // Fail fast on broken config files instead of on first render.
+  const { getProviderConfig } = await import("./lib/providerConfig");
+  getProviderConfig();
+  const { getBusinessServices } = await import("./lib/businessServices");
+  getBusinessServices();
+
+  // Warm the status cache before the first request asks for it.
+  const { startPoller } = await import("./lib/poller");
+  void startPoller();
+}
@@ -0,0 +1,57 @@
+// lib/adminAuth.ts
+// HTTP Basic auth for operator actions. Accounts come from
+// STATUS_ADMIN_USERS ("alice:password,bob:password"); without it, admin
+// actions are disabled.
+import { createHash, timingSafeEqual } from "node:crypto";
+import { jsonError } from "./apiResponse";
+
+const REALM = "status-dashboard admin";
+
+function getAdminUsers(): Map<string, string> {
+  const users = new Map<string, string>();
+  for (const entry of (process.env.STATUS_ADMIN_USERS ?? "").split(",")) {
+    const colon = entry.indexOf(":");
+    if (colon <= 0) continue;
+    users.set(entry.slice(0, colon).trim(), entry.slice(colon + 1));
+  }
+  return users;
+}
+
+// Hash first so the comparison doesn't leak the password length
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * The authenticated admin's user name, or the error response to send.
+ */
+export function requireAdmin(request: Request): string | Response {
+  const users = getAdminUsers();
+  if (!users.size) {
+    return jsonError(
+      403,
+      "Admin actions are disabled (set STATUS_ADMIN_USERS)"
+    );
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const [scheme, encoded] = header.split(" ");
+  if (scheme?.toLowerCase() === "basic" && encoded) {
+    const decoded = Buffer.from(encoded, "base64").toString("utf8");
+    const colon = decoded.indexOf(":");
+    const user = decoded.slice(0, colon);
+    const expected = users.get(user);
+    if (
+      colon > 0 &&
+      expected !== undefined &&
+      safeEqual(decoded.slice(colon + 1), expected)
+    ) {
+      return user;
+    }
+  }
+
+  const response = jsonError(401, "Admin credentials required");
+  response.headers.set("WWW-Authenticate", `Basic realm="${REALM}"`);
+  return response;
+}
@@ -0,0 +1,56 @@
+// lib/apiResponse.ts
+import { createHash } from "node:crypto";
+
+// Browsers revalidate quickly; shared caches/CDN may serve a bit longer.
+const DEFAULT_CACHE_CONTROL =
+  "public, max-age=30, s-maxage=60, stale-while-revalidate=60";
+
+/**
+ * Response with a content-derived ETag. Answers 304 when the client's
+ * If-None-Match already matches.
+ */
+export function withEtag(
+  request: Request,
+  body: string,
+  contentType: string,
+  init: {
+    status?: number;
+    cacheControl?: string;
+    headers?: Record<string, string>;
+  } = {}
+): Response {
+  const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+  const headers = {
+    ...init.headers,
+    "Cache-Control": init.cacheControl ?? DEFAULT_CACHE_CONTROL,
+    ETag: etag,
+  };
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (
+    ifNoneMatch &&
+    ifNoneMatch.split(",").some((tag) => tag.trim() === etag)
+  ) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(body, {
+    status: init.status ?? 200,
+    headers: { ...headers, "Content-Type": contentType },
+  });
+}
+
+export function jsonWithEtag(
+  request: Request,
+  body: unknown,
+  init: { status?: number; cacheControl?: string } = {}
+): Response {
+  return withEtag(request, JSON.stringify(body), "application/json", init);
+}
+
+export function jsonError(status: number, error: string): Response {
+  return Response.json(
+    { error },
+    { status, headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,233 @@
+// lib/awsHealth.ts
+// Parser for the public AWS Health Dashboard event feed
+// (https://health.aws.amazon.com/public/currentevents).
+import { maxStatus, type StatusLevel } from "./statusLevels";
+import type { StatusComponent, StatusIncident } from "./statusSources";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+export interface AwsHealthFilter {
+  /** Region codes (e.g. "us-east-2"), or "global" for region-less services */
+  regions?: string[];
+  /** Service keys as used by AWS (e.g. "ec2", "rds", "lambda") */
+  services?: string[];
+}
+
+// Subset of the currentevents shape we read
+interface AwsEventLogEntry {
+  summary?: string;
+  message?: string;
+  status?: string | number;
+  timestamp?: string | number;
+}
+
+interface AwsEvent {
+  arn?: string;
+  date?: string | number;
+  service?: string;
+  service_name?: string;
+  region_name?: string;
+  status?: string | number;
+  summary?: string;
+  event_log?: AwsEventLogEntry[];
+  impacted_services?: Record<
+    string,
+    { current?: string | number; service_name?: string }
+  >;
+}
+
+export interface AwsHealthResult {
+  status: StatusLevel;
+  incidents: StatusIncident[];
+  components: StatusComponent[];
+}
+
+// ─────────────────────────────
+// DECODING
+// ─────────────────────────────
+
+/**
+ * The feed is served as UTF-16 with a BOM; fall back to UTF-8 without one.
+ */
+export function decodeAwsFeed(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+  }
+  return new TextDecoder("utf-8").decode(bytes).replace(/^\uFEFF/, "");
+}
+
+/**
+ * Map an AWS event status code -> StatusLevel.
+ * 0 = resolved, 1 = informational, 2 = degradation, 3 = disruption.
+ */
+export function awsStatusToLevel(code?: string | number): StatusLevel {
+  switch (String(code ?? "")) {
+    case "0":
+      return "operational";
+    case "1":
+      return "degraded";
+    case "2":
+      return "partial_outage";
+    case "3":
+      return "major_outage";
+    default:
+      return "degraded";
+  }
+}
+
+const REGION_SUFFIX = /^(.+?)-((?:[a-z]{2}-gov|[a-z]{2})-[a-z]+-\d)$/;
+
+/**
+ * Split an AWS service key ("ec2-us-east-2") into service and region.
+ * Keys without a region suffix ("route53") are global.
+ */
+export function parseServiceKey(key: string): {
+  service: string;
+  region: string;
+} {
+  const match = key.match(REGION_SUFFIX);
+  return match
+    ? { service: match[1], region: match[2] }
+    : { service: key, region: "global" };
+}
+
+function epochSecondsToIso(epoch?: string | number): string | undefined {
+  const seconds = Number(epoch);
+  return Number.isFinite(seconds) && seconds > 0
+    ? new Date(seconds * 1000).toISOString()
+    : undefined;
+}
+
+// "[RESOLVED] Increased API Error Rates" → "Increased API Error Rates"
+function cleanSummary(summary: string): string {
+  return summary.replace(/^\s*\[[^\]]*\]\s*/, "").trim();
+}
+
+// ─────────────────────────────
+// EVALUATION
+// ─────────────────────────────
+
+function matchesFilter(key: string, filter: AwsHealthFilter): boolean {
+  const { service, region } = parseServiceKey(key);
+  return (
+    (!filter.regions?.length || filter.regions.includes(region)) &&
+    (!filter.services?.length || filter.services.includes(service))
+  );
+}
+
+/**
+ * Turn the raw event list into incidents, per service/region components and
+ * an overall level, keeping only events touching the filtered services.
+ */
+export function evaluateAwsEvents(
+  data: unknown,
+  filter: AwsHealthFilter,
+  detailUrl: string
+): AwsHealthResult {
+  if (!Array.isArray(data)) {
+    throw new SyntaxError("AWS Health feed is not an event array");
+  }
+
+  const events = data as AwsEvent[];
+  const componentStatus = new Map<string, StatusLevel>();
+  const incidents: StatusIncident[] = [];
+  let status: StatusLevel = "operational";
+
+  // Pre-seed components for an explicit service × region list so healthy
+  // services show up too.
+  for (const service of filter.services ?? []) {
+    for (const region of filter.regions ?? []) {
+      const key = region === "global" ? service : `${service}-${region}`;
+      componentStatus.set(key, "operational");
+    }
+  }
+
+  for (const event of events) {
+    // `impacted_services` usually repeats the event's own service
+    const keys = [
+      ...new Set([
+        ...(event.service ? [event.service] : []),
+        ...Object.keys(event.impacted_services ?? {}),
+      ]),
+    ].filter((key) => matchesFilter(key, filter));
+    if (!keys.length) continue;
+
+    const log = [...(event.event_log ?? [])].sort(
+      (a, b) => Number(b.timestamp ?? 0) - Number(a.timestamp ?? 0)
+    );
+    const latest = log[0];
+    const level = awsStatusToLevel(latest?.status ?? event.status);
+    const resolved =
+      level === "operational" ||
+      /\[resolved\]/i.test(latest?.summary ?? event.summary ?? "");
+
+    const impact = log.reduce<StatusLevel>(
+      (worst, entry) => maxStatus(worst, awsStatusToLevel(entry.status)),
+      awsStatusToLevel(event.status)
+    );
+
+    if (!resolved) {
+      status = maxStatus(status, level);
+      for (const key of keys) {
+        componentStatus.set(
+          key,
+          maxStatus(componentStatus.get(key) ?? "operational", level)
+        );
+      }
+    } else {
+      for (const key of keys) {
+        if (!componentStatus.has(key)) componentStatus.set(key, "operational");
+      }
+    }
+
+    const updatedAt =
+      epochSecondsToIso(latest?.timestamp) ?? epochSecondsToIso(event.date);
+    incidents.push({
+      id: event.arn ?? `${keys[0]}-${event.date}`,
+      title: cleanSummary(
+        event.summary ?? latest?.summary ?? event.service_name ?? "AWS event"
+      ),
+      phase: resolved ? "resolved" : "investigating",
+      impact,
+      startedAt: epochSecondsToIso(event.date),
+      updatedAt,
+      resolvedAt: resolved ? updatedAt : undefined,
+      link: detailUrl,
+      components: keys.map((key) => {
+        const { service, region } = parseServiceKey(key);
+        return `${service} (${region})`;
+      }),
+      updates: log.map((entry) => ({
+        phase:
+          awsStatusToLevel(entry.status) === "operational" ||
+          /\[resolved\]/i.test(entry.summary ?? "")
+            ? "resolved"
+            : "investigating",
+        body: entry.message ?? entry.summary ?? "",
+        at: epochSecondsToIso(entry.timestamp),
+      })),
+    });
+  }
+
+  const components: StatusComponent[] = [...componentStatus.entries()].map(
+    ([key, level]) => {
+      const { service, region } = parseServiceKey(key);
+      return { id: key, name: `${service} (${region})`, status: level };
+    }
+  );
+
+  // Open incidents first, newest first within each bucket
+  incidents.sort((a, b) => {
+    const open =
+      Number(b.phase !== "resolved") - Number(a.phase !== "resolved");
+    return open || (b.updatedAt ?? "").localeCompare(a.updatedAt ?? "");
+  });
+
+  return { status, incidents, components };
+}
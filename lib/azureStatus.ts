@@ -0,0 +1,38 @@
+// lib/azureStatus.ts
+// Parser for the Azure status RSS feed
+// (https://rssfeed.azure.status.microsoft/en-us/status/feed/). The feed only
+// carries current issues, so every item is an open incident.
+import type { FeedItem } from "./feedParser";
+import {
+  DEFAULT_RSS_RULES,
+  detectLevel,
+  detectPhase,
+  normalizeIncidentTitle,
+} from "./rssIncidents";
+import type { ParsedStatusPage, StatusIncident } from "./statusSources";
+import { finishStatusPage } from "./statusPageParsing";
+
+export function parseAzureFeed(
+  items: FeedItem[],
+  detailUrl: string
+): ParsedStatusPage {
+  const incidents: StatusIncident[] = items.map((item) => {
+    const text = `${item.title} ${item.text}`;
+    const detected = detectPhase(text, DEFAULT_RSS_RULES);
+    // Items leave the feed once mitigated; until then they're open
+    const phase = detected === "resolved" ? "monitoring" : detected;
+    return {
+      id: item.id,
+      title: normalizeIncidentTitle(item.title) || item.title,
+      phase,
+      impact: detectLevel(text, DEFAULT_RSS_RULES),
+      updatedAt: item.date,
+      link: item.link ?? detailUrl,
+      updates: item.text
+        ? [{ phase, body: item.text, at: item.date }]
+        : undefined,
+    };
+  });
+
+  return finishStatusPage("operational", incidents, [], []);
+}
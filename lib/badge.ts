@@ -0,0 +1,108 @@
+// lib/badge.ts
+// shields.io-style SVG badges ("label | status") for READMEs and wikis.
+import { withEtag } from "./apiResponse";
+import { STATUS_COLORS, STATUS_LABELS, type StatusLevel } from "./statusLevels";
+
+const LABEL_COLOR = "555";
+const MISSING_COLOR = "9f9f9f";
+const HORIZONTAL_PADDING = 6;
+
+// ─────────────────────────────
+// RENDERING
+// ─────────────────────────────
+
+/**
+ * Approximate rendered width of 11px Verdana text. Badges are rendered
+ * without a font engine, so this only has to be close enough that the text
+ * doesn't touch the edges.
+ */
+function textWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    if (/[ijlI.,:;!|'`]/.test(char)) width += 3.5;
+    else if (/[ftr() -]/.test(char)) width += 4.5;
+    else if (/[mwMW]/.test(char)) width += 10;
+    else if (/[A-Z0-9]/.test(char)) width += 7.5;
+    else width += 6.5;
+  }
+  return Math.ceil(width);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Flat two-part badge: grey label on the left, colored message on the right.
+ * `color` is a hex value without "#".
+ */
+export function renderBadge(
+  label: string,
+  message: string,
+  color: string
+): string {
+  const labelWidth = textWidth(label) + HORIZONTAL_PADDING * 2;
+  const messageWidth = textWidth(message) + HORIZONTAL_PADDING * 2;
+  const width = labelWidth + messageWidth;
+  const title = escapeXml(`${label}: ${message}`);
+  const l = escapeXml(label);
+  const m = escapeXml(message);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">
+<title>${title}</title>
+<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>
+<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+<g clip-path="url(#r)"><rect width="${labelWidth}" height="20" fill="#${LABEL_COLOR}"/><rect x="${labelWidth}" width="${messageWidth}" height="20" fill="#${color}"/><rect width="${width}" height="20" fill="url(#s)"/></g>
+<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+<text x="${
+    labelWidth / 2
+  }" y="15" fill="#010101" fill-opacity=".3">${l}</text><text x="${
+    labelWidth / 2
+  }" y="14">${l}</text>
+<text x="${
+    labelWidth + messageWidth / 2
+  }" y="15" fill="#010101" fill-opacity=".3">${m}</text><text x="${
+    labelWidth + messageWidth / 2
+  }" y="14">${m}</text>
+</g>
+</svg>`;
+}
+
+// ─────────────────────────────
+// RESPONSES
+// ─────────────────────────────
+
+const SVG_TYPE = "image/svg+xml; charset=utf-8";
+
+/**
+ * Badge for a status level. `?label=` in the request URL replaces the
+ * default label (the provider or group name).
+ */
+export function statusBadgeResponse(
+  request: Request,
+  label: string,
+  level: StatusLevel
+): Response {
+  const custom = new URL(request.url).searchParams.get("label");
+  const svg = renderBadge(
+    custom || label,
+    STATUS_LABELS[level],
+    STATUS_COLORS[level]
+  );
+  return withEtag(request, svg, SVG_TYPE);
+}
+
+/**
+ * Grey "not found" badge with a 404, so a mistyped id is visible where the
+ * badge is embedded instead of showing a broken image.
+ */
+export function missingBadgeResponse(what: string): Response {
+  return new Response(renderBadge(what, "not found", MISSING_COLOR), {
+    status: 404,
+    headers: { "Content-Type": SVG_TYPE, "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,130 @@
+// lib/betterStack.ts
+// Parser for Better Stack public status pages (https://<page>/index.json),
+// a JSON:API document with the page as `data` and the rest in `included`.
+import type { StatusLevel } from "./statusLevels";
+import type {
+  ParsedStatusPage,
+  StatusComponent,
+  StatusIncident,
+  StatusMaintenance,
+} from "./statusSources";
+import { finishStatusPage, toIso } from "./statusPageParsing";
+
+// Subset of the index.json shape we read
+interface JsonApiResource {
+  id: string;
+  type: string;
+  attributes?: Record<string, unknown>;
+}
+
+interface BetterStackIndex {
+  data?: JsonApiResource;
+  included?: JsonApiResource[];
+}
+
+/**
+ * Better Stack resource / report state → StatusLevel.
+ * "maintenance" is operational; maintenance reports are tracked apart.
+ */
+export function betterStackLevel(value: unknown): StatusLevel {
+  switch (value) {
+    case "operational":
+    case "resolved":
+    case "maintenance":
+      return "operational";
+    case "degraded":
+      return "degraded";
+    case "downtime":
+      return "major_outage";
+    default:
+      return "degraded";
+  }
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+export function parseBetterStackIndex(
+  data: unknown,
+  detailUrl: string,
+  now: number = Date.now()
+): ParsedStatusPage {
+  const index = data as BetterStackIndex;
+  if (index?.data?.type !== "status_page") {
+    throw new SyntaxError("Better Stack index has no status_page resource");
+  }
+  const included = index.included ?? [];
+
+  const sections = new Map(
+    included
+      .filter((r) => r.type === "status_page_section")
+      .map((r) => [r.id, str(r.attributes?.name)])
+  );
+
+  const resourceNames = new Map<string, string>();
+  const components: StatusComponent[] = included
+    .filter((r) => r.type === "status_page_resource")
+    .filter((r) => r.attributes?.status !== "not_monitored")
+    .map((r) => {
+      const name = str(r.attributes?.public_name) ?? r.id;
+      resourceNames.set(r.id, name);
+      return {
+        id: r.id,
+        name,
+        status: betterStackLevel(r.attributes?.status),
+        group: sections.get(String(r.attributes?.status_page_section_id)),
+      };
+    });
+
+  const incidents: StatusIncident[] = [];
+  const maintenances: StatusMaintenance[] = [];
+
+  for (const report of included.filter((r) => r.type === "status_report")) {
+    const a = report.attributes ?? {};
+    const affected = Array.isArray(a.affected_resources)
+      ? (a.affected_resources as { status_page_resource_id?: unknown }[])
+          .map((r) => resourceNames.get(String(r.status_page_resource_id)))
+          .filter((name): name is string => !!name)
+      : undefined;
+    const endsAt = toIso(a.ends_at);
+    const resolved =
+      a.aggregate_state === "resolved" ||
+      (!!endsAt && Date.parse(endsAt) <= now);
+
+    if (a.report_type === "maintenance") {
+      if (resolved) continue;
+      const startsAt = toIso(a.starts_at);
+      maintenances.push({
+        id: report.id,
+        title: str(a.title) ?? "Maintenance",
+        state:
+          startsAt && Date.parse(startsAt) > now ? "scheduled" : "in_progress",
+        scheduledFor: startsAt,
+        scheduledUntil: endsAt,
+        components: affected,
+        link: detailUrl,
+      });
+      continue;
+    }
+
+    incidents.push({
+      id: report.id,
+      title: str(a.title) ?? "Incident",
+      phase: resolved ? "resolved" : "investigating",
+      impact: betterStackLevel(a.aggregate_state),
+      startedAt: toIso(a.starts_at),
+      updatedAt: toIso(a.updated_at) ?? endsAt ?? toIso(a.starts_at),
+      resolvedAt: resolved ? endsAt : undefined,
+      link: detailUrl,
+      components: affected,
+    });
+  }
+
+  return finishStatusPage(
+    betterStackLevel(index.data.attributes?.aggregate_state),
+    incidents,
+    components,
+    maintenances
+  );
+}
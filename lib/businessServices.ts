@@ -0,0 +1,335 @@
+// lib/businessServices.ts
+// Our own services, declared in config/services.json as a dependency graph
+// over provider ids (and other services), with their status derived from it.
+import { existsSync } from "node:fs";
+import { ConfigError, isRecord, readJsonConfigFile } from "./configFile";
+import { getProviderConfig } from "./providerConfig";
+import { maxStatus, rollupStatus, type StatusLevel } from "./statusLevels";
+import type { StatusIncident, StatusSummary } from "./statusSources";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+export interface ProviderDependency {
+  provider: string;
+  /**
+   * Component names or ids on the provider's status page. When set, only
+   * these components count; the provider-wide status is used if none of them
+   * show up in its summary.
+   */
+  components?: string[];
+  /** false: the dependency counts as "degraded" at most. Defaults to true. */
+  critical: boolean;
+}
+
+export interface ServiceDependency {
+  service: string;
+  critical: boolean;
+}
+
+export type Dependency = ProviderDependency | ServiceDependency;
+
+export interface BusinessService {
+  id: string;
+  name: string;
+  description?: string;
+  dependsOn: Dependency[];
+}
+
+/**
+ * A vendor problem behind a service's status, found directly or through a
+ * service it depends on (`via`).
+ */
+export interface ServiceCause {
+  provider: string;
+  name: string;
+  status: StatusLevel;
+  /** Affected components, when the dependency names components */
+  components?: string[];
+  /** Open incidents on the provider */
+  incidents: StatusIncident[];
+  message?: string;
+  detailUrl?: string;
+  /** Service id the cause was inherited from */
+  via?: string;
+}
+
+export interface ServiceStatus {
+  id: string;
+  name: string;
+  description?: string;
+  status: StatusLevel;
+  causes: ServiceCause[];
+}
+
+// Override with SERVICES_CONFIG_PATH; without either file there are no services
+const DEFAULT_CONFIG_PATH = "config/services.json";
+
+// ─────────────────────────────
+// VALIDATION
+// ─────────────────────────────
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * First dependency cycle found, as a path of service ids ("a → b → a").
+ */
+function findCycle(services: BusinessService[]): string[] | null {
+  const byId = new Map(services.map((s) => [s.id, s]));
+  const done = new Set<string>();
+
+  function visit(id: string, path: string[]): string[] | null {
+    if (path.includes(id)) return [...path.slice(path.indexOf(id)), id];
+    if (done.has(id)) return null;
+
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      if (!("service" in dep)) continue;
+      const cycle = visit(dep.service, [...path, id]);
+      if (cycle) return cycle;
+    }
+    done.add(id);
+    return null;
+  }
+
+  for (const service of services) {
+    const cycle = visit(service.id, []);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Validate config/services.json against the provider registry. Collects
+ * every problem, including unknown ids and dependency cycles.
+ */
+export function validateServicesFile(
+  data: unknown,
+  file: string
+): BusinessService[] {
+  if (!isRecord(data) || !Array.isArray(data.services)) {
+    throw new ConfigError(file, ["top level must be { services: [...] }"]);
+  }
+
+  const providerIds = new Set(getProviderConfig().providers.map((p) => p.id));
+  const serviceIds = new Set(
+    data.services.map((raw) => (isRecord(raw) ? raw.id : undefined))
+  );
+  const issues: string[] = [];
+  const services: BusinessService[] = [];
+
+  data.services.forEach((raw, i) => {
+    const at = `services[${i}]`;
+    if (!isRecord(raw)) {
+      issues.push(`${at}: must be an object`);
+      return;
+    }
+    const label = typeof raw.id === "string" ? `${at} (${raw.id})` : at;
+
+    if (typeof raw.id !== "string" || !ID_PATTERN.test(raw.id)) {
+      issues.push(`${label}.id: must be a lowercase slug (a-z, 0-9, -)`);
+    } else if (services.some((s) => s.id === raw.id)) {
+      issues.push(`${label}.id: duplicate service id`);
+    }
+    if (typeof raw.name !== "string" || !raw.name.trim()) {
+      issues.push(`${label}.name: must be a non-empty string`);
+    }
+    if (raw.description !== undefined && typeof raw.description !== "string") {
+      issues.push(`${label}.description: must be a string`);
+    }
+
+    const dependsOn: Dependency[] = [];
+    if (!Array.isArray(raw.dependsOn) || !raw.dependsOn.length) {
+      issues.push(`${label}.dependsOn: must be a non-empty array`);
+    } else {
+      raw.dependsOn.forEach((dep, j) => {
+        const depAt = `${label}.dependsOn[${j}]`;
+        if (!isRecord(dep)) {
+          issues.push(`${depAt}: must be { provider } or { service }`);
+          return;
+        }
+        if (dep.critical !== undefined && typeof dep.critical !== "boolean") {
+          issues.push(`${depAt}.critical: must be true or false`);
+        }
+        const critical = dep.critical !== false;
+
+        if (typeof dep.provider === "string") {
+          if (!providerIds.has(dep.provider)) {
+            issues.push(
+              `${depAt}.provider: unknown provider "${dep.provider}"`
+            );
+          }
+          if (
+            dep.components !== undefined &&
+            (!Array.isArray(dep.components) ||
+              !dep.components.length ||
+              dep.components.some((c) => typeof c !== "string"))
+          ) {
+            issues.push(
+              `${depAt}.components: must be a non-empty array of component names or ids`
+            );
+          }
+          dependsOn.push({
+            provider: dep.provider,
+            components: dep.components as string[] | undefined,
+            critical,
+          });
+        } else if (typeof dep.service === "string") {
+          if (!serviceIds.has(dep.service)) {
+            issues.push(`${depAt}.service: unknown service "${dep.service}"`);
+          } else if (dep.service === raw.id) {
+            issues.push(`${depAt}.service: a service can't depend on itself`);
+          }
+          dependsOn.push({ service: dep.service, critical });
+        } else {
+          issues.push(`${depAt}: must name a provider or a service id`);
+        }
+      });
+    }
+
+    services.push({
+      id: raw.id as string,
+      name: raw.name as string,
+      description: raw.description as string | undefined,
+      dependsOn,
+    });
+  });
+
+  if (!issues.length) {
+    const cycle = findCycle(services);
+    if (cycle) issues.push(`dependency cycle: ${cycle.join(" → ")}`);
+  }
+
+  if (issues.length) throw new ConfigError(file, issues);
+  return services;
+}
+
+// ─────────────────────────────
+// LOADING
+// ─────────────────────────────
+
+let cached: BusinessService[] | null = null;
+
+export function getBusinessServices(): BusinessService[] {
+  if (!cached) {
+    const configured = process.env.SERVICES_CONFIG_PATH;
+    if (!configured && !existsSync(DEFAULT_CONFIG_PATH)) {
+      cached = [];
+    } else {
+      const { path, data } = readJsonConfigFile(
+        configured || DEFAULT_CONFIG_PATH
+      );
+      cached = validateServicesFile(data, path);
+    }
+  }
+  return cached;
+}
+
+// ─────────────────────────────
+// EVALUATION
+// ─────────────────────────────
+
+/**
+ * The provider as seen through one dependency: narrowed to the named
+ * components when they're present in its summary.
+ */
+function viewProvider(
+  summary: StatusSummary,
+  dep: ProviderDependency
+): { status: StatusLevel; components?: string[] } {
+  const wanted = dep.components?.map((c) => c.toLowerCase());
+  const matched = wanted
+    ? (summary.components ?? []).filter(
+        (c) =>
+          wanted.includes(c.name.toLowerCase()) ||
+          wanted.includes(c.id.toLowerCase())
+      )
+    : [];
+  if (!matched.length) return { status: summary.status };
+
+  return {
+    status: matched.reduce<StatusLevel>(
+      (worst, c) => maxStatus(worst, c.status),
+      "operational"
+    ),
+    components: matched
+      .filter((c) => c.status !== "operational")
+      .map((c) => c.name),
+  };
+}
+
+/**
+ * Derive each service's status from the provider statuses. A service takes
+ * the worst level among its dependencies (same rules as the dashboard
+ * rollup: non-critical dependencies count as "degraded" at most, briefly
+ * unreachable providers are ignored) and lists the vendor problems behind it.
+ */
+export function evaluateServices(
+  statuses: StatusSummary[],
+  now: number = Date.now()
+): ServiceStatus[] {
+  const services = getBusinessServices();
+  const byProvider = new Map(statuses.map((s) => [s.id, s]));
+  const byService = new Map(services.map((s) => [s.id, s]));
+  const results = new Map<string, ServiceStatus>();
+
+  // The graph is acyclic (checked on load), so plain recursion terminates
+  function evaluate(service: BusinessService): ServiceStatus {
+    const known = results.get(service.id);
+    if (known) return known;
+
+    const levels: StatusSummary[] = [];
+    const causes: ServiceCause[] = [];
+
+    for (const dep of service.dependsOn) {
+      if ("service" in dep) {
+        const upstream = evaluate(byService.get(dep.service)!);
+        levels.push({
+          id: upstream.id,
+          name: upstream.name,
+          status: upstream.status,
+          critical: dep.critical,
+        });
+        for (const cause of upstream.causes) {
+          causes.push({ ...cause, via: cause.via ?? upstream.id });
+        }
+        continue;
+      }
+
+      const summary = byProvider.get(dep.provider);
+      if (!summary) continue;
+
+      const view = viewProvider(summary, dep);
+      levels.push({ ...summary, status: view.status, critical: dep.critical });
+      if (view.status === "operational") continue;
+
+      causes.push({
+        provider: summary.id,
+        name: summary.name,
+        status: view.status,
+        components: view.components,
+        incidents: (summary.incidents ?? []).filter(
+          (i) => i.phase !== "resolved"
+        ),
+        message: summary.message,
+        detailUrl: summary.detailUrl,
+      });
+    }
+
+    const result: ServiceStatus = {
+      id: service.id,
+      name: service.name,
+      description: service.description,
+      status: rollupStatus(levels, now),
+      // The same vendor can arrive through several paths; list it once
+      causes: causes.filter(
+        (cause, i) =>
+          causes.findIndex((c) => c.provider === cause.provider) === i
+      ),
+    };
+    results.set(service.id, result);
+    return result;
+  }
+
+  return services.map(evaluate);
+}
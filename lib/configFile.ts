@@ -0,0 +1,69 @@
+// lib/configFile.ts
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * Thrown when a config file is missing, unreadable or fails validation.
+ * `issues` holds one human-readable line per problem (with a JSON path).
+ */
+export class ConfigError extends Error {
+  constructor(readonly file: string, readonly issues: string[]) {
+    super(
+      `Invalid config file ${file}:\n` +
+        issues.map((issue) => `  - ${issue}`).join("\n")
+    );
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Resolve a config path (relative paths are relative to the project root)
+ * and parse it as JSON.
+ */
+export function readJsonConfigFile(file: string): {
+  path: string;
+  data: unknown;
+} {
+  const resolved = path.isAbsolute(file)
+    ? file
+    : path.join(process.cwd(), file);
+
+  let raw: string;
+  try {
+    raw = readFileSync(resolved, "utf8");
+  } catch (err) {
+    throw new ConfigError(resolved, [
+      `cannot read file (${(err as Error).message})`,
+    ]);
+  }
+
+  try {
+    return { path: resolved, data: JSON.parse(raw) };
+  } catch (err) {
+    throw new ConfigError(resolved, [
+      `not valid JSON (${(err as Error).message})`,
+    ]);
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve "env:VAR_NAME" indirection so secrets stay out of the config file.
+ */
+export function resolveSecret(value: string | undefined): string | undefined {
+  if (!value?.startsWith("env:")) return value;
+  return process.env[value.slice(4)];
+}
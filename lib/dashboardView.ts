@@ -0,0 +1,166 @@
+// lib/dashboardView.ts
+// Dashboard filters, search and sort order, and their URL form so a view
+// can be bookmarked or shared (e.g. `/?problems=1` on the NOC TV).
+// No server-only imports here: the live dashboard uses it too.
+import { STATUS_ORDER, statusSeverity, type StatusLevel } from "./statusLevels";
+import type { StatusSummary } from "./statusSources";
+
+export type DashboardSort = "config" | "severity" | "updated";
+
+export const DASHBOARD_SORTS: DashboardSort[] = [
+  "config",
+  "severity",
+  "updated",
+];
+
+export const DASHBOARD_SORT_LABELS: Record<DashboardSort, string> = {
+  config: "Config order",
+  severity: "Severity",
+  updated: "Last update",
+};
+
+export interface DashboardView {
+  /** Only these levels; empty means all */
+  statuses: StatusLevel[];
+  /** Only these group ids; empty means all */
+  groups: string[];
+  /** Providers carrying any of these tags; empty means all */
+  tags: string[];
+  /** Free text matched against provider names and incident titles */
+  q: string;
+  sort: DashboardSort;
+  /** Hide operational providers */
+  problems: boolean;
+}
+
+export const DEFAULT_VIEW: DashboardView = {
+  statuses: [],
+  groups: [],
+  tags: [],
+  q: "",
+  sort: "config",
+  problems: false,
+};
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// ─────────────────────────────
+// URL FORM
+// ─────────────────────────────
+
+/**
+ * Comma-separated list params; repeated params (`?tag=a&tag=b`) work too.
+ */
+function listParam(value: string | string[] | undefined): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return [
+    ...new Set(values.flatMap((v) => v.split(",").map((part) => part.trim()))),
+  ].filter(Boolean);
+}
+
+function firstParam(value: string | string[] | undefined): string {
+  return (Array.isArray(value) ? value[0] : value)?.trim() ?? "";
+}
+
+/**
+ * Read a view from page search params. Unknown levels and sort orders are
+ * dropped rather than rejected, so an old bookmark still opens.
+ */
+export function parseView(params: SearchParams): DashboardView {
+  const sort = firstParam(params.sort) as DashboardSort;
+  const problems = firstParam(params.problems);
+
+  return {
+    statuses: listParam(params.status).filter((s): s is StatusLevel =>
+      STATUS_ORDER.includes(s as StatusLevel)
+    ),
+    groups: listParam(params.group),
+    tags: listParam(params.tag),
+    q: firstParam(params.q),
+    sort: DASHBOARD_SORTS.includes(sort) ? sort : DEFAULT_VIEW.sort,
+    problems: problems === "1" || problems === "true",
+  };
+}
+
+/**
+ * Query string for a view ("" for the default view), without the "?".
+ */
+export function viewToQuery(view: DashboardView): string {
+  const params = new URLSearchParams();
+  if (view.statuses.length) params.set("status", view.statuses.join(","));
+  if (view.groups.length) params.set("group", view.groups.join(","));
+  if (view.tags.length) params.set("tag", view.tags.join(","));
+  if (view.q.trim()) params.set("q", view.q.trim());
+  if (view.sort !== DEFAULT_VIEW.sort) params.set("sort", view.sort);
+  if (view.problems) params.set("problems", "1");
+  // Commas are safe in a query string and keep shared links readable
+  return params.toString().replace(/%2C/gi, ",");
+}
+
+export function isDefaultView(view: DashboardView): boolean {
+  return viewToQuery(view) === "";
+}
+
+// ─────────────────────────────
+// FILTERING AND SORTING
+// ─────────────────────────────
+
+function matchesSearch(s: StatusSummary, q: string): boolean {
+  const needle = q.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    s.name,
+    s.id,
+    ...(s.incidents ?? []).map((i) => i.title),
+    ...(s.latestItems ?? []).map((i) => i.title),
+  ];
+  return haystack.some((text) => text.toLowerCase().includes(needle));
+}
+
+/**
+ * Providers the view shows, in their original order.
+ */
+export function filterStatuses(
+  statuses: StatusSummary[],
+  view: DashboardView
+): StatusSummary[] {
+  return statuses.filter(
+    (s) =>
+      (!view.problems || s.status !== "operational") &&
+      (!view.statuses.length || view.statuses.includes(s.status)) &&
+      (!view.groups.length || view.groups.includes(s.group ?? "")) &&
+      (!view.tags.length || view.tags.some((t) => s.tags?.includes(t))) &&
+      matchesSearch(s, view.q)
+  );
+}
+
+// Newest first; providers without a parseable time go last
+function updatedAt(s: StatusSummary): number {
+  const time = Date.parse(s.lastUpdated ?? s.fetchedAt ?? "");
+  return Number.isNaN(time) ? -Infinity : time;
+}
+
+/**
+ * Sort a copy of `statuses` by the view's order. Ties keep config order.
+ */
+export function sortStatuses(
+  statuses: StatusSummary[],
+  sort: DashboardSort
+): StatusSummary[] {
+  if (sort === "config") return statuses;
+  return [...statuses].sort((a, b) => {
+    if (sort === "severity") {
+      return statusSeverity(b.status) - statusSeverity(a.status);
+    }
+    const [ta, tb] = [updatedAt(a), updatedAt(b)];
+    return ta === tb ? 0 : tb > ta ? 1 : -1;
+  });
+}
+
+/**
+ * Every tag used by a provider, alphabetically, for the filter chips.
+ */
+export function collectTags(statuses: StatusSummary[]): string[] {
+  return [...new Set(statuses.flatMap((s) => s.tags ?? []))].sort();
+}
@@ -0,0 +1,38 @@
+// lib/dataStore.ts
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Override with STATUS_DATA_DIR (absolute, or relative to project root)
+const DEFAULT_DATA_DIR = "data";
+
+function getDataDir(): string {
+  const dir = process.env.STATUS_DATA_DIR || DEFAULT_DATA_DIR;
+  return path.isAbsolute(dir) ? dir : path.join(process.cwd(), dir);
+}
+
+/**
+ * Read a JSON document from the data dir, or `fallback` if it doesn't exist.
+ */
+export async function readJsonStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await readFile(path.join(getDataDir(), name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw err;
+  }
+}
+
+/**
+ * Write a JSON document atomically (temp file + rename), so a crash mid-write
+ * never leaves a truncated store behind.
+ */
+export async function writeJsonStore(name: string, data: unknown) {
+  const dir = getDataDir();
+  await mkdir(dir, { recursive: true });
+
+  const file = path.join(dir, name);
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data), "utf8");
+  await rename(tmp, file);
+}
@@ -0,0 +1,95 @@
+// lib/embedWidget.ts
+// Self-contained HTML status list for iframes on wikis and internal tools:
+// no scripts, inline styles only, refreshed by the browser.
+import {
+  rollupStatus,
+  STATUS_COLORS,
+  STATUS_LABELS,
+  type StatusLevel,
+} from "./statusLevels";
+import type { StatusSummary } from "./statusSources";
+
+export type WidgetTheme = "dark" | "light";
+
+export interface WidgetOptions {
+  title: string;
+  theme: WidgetTheme;
+  /** Seconds between reloads (meta refresh) */
+  refreshSeconds: number;
+  /** Absolute or root-relative base for provider detail links */
+  baseUrl: string;
+}
+
+const THEMES: Record<WidgetTheme, { bg: string; fg: string; muted: string }> = {
+  dark: { bg: "#020617", fg: "#e2e8f0", muted: "#94a3b8" },
+  light: { bg: "#ffffff", fg: "#0f172a", muted: "#64748b" },
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function statusDot(level: StatusLevel): string {
+  return `<span class="dot" style="background:#${STATUS_COLORS[level]}"></span>`;
+}
+
+/**
+ * Render the widget: a headline with the rolled-up status of the listed
+ * providers, then one row per provider linking to its detail page.
+ */
+export function renderWidget(
+  statuses: StatusSummary[],
+  options: WidgetOptions,
+  now: number = Date.now()
+): string {
+  const theme = THEMES[options.theme];
+  const overall = rollupStatus(statuses, now);
+
+  const rows = statuses
+    .map(
+      (s) => `<li>
+  ${statusDot(s.status)}
+  <a href="${escapeHtml(
+    `${options.baseUrl}/provider/${encodeURIComponent(s.id)}`
+  )}" target="_blank" rel="noreferrer">${escapeHtml(s.name)}</a>
+  <span class="level">${STATUS_LABELS[s.status]}</span>
+</li>`
+    )
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="refresh" content="${options.refreshSeconds}">
+<title>${escapeHtml(options.title)}</title>
+<style>
+  body { margin: 0; padding: 12px; background: ${theme.bg}; color: ${
+    theme.fg
+  }; font: 13px/1.4 system-ui, -apple-system, "Segoe UI", sans-serif; }
+  h1 { margin: 0 0 8px; font-size: 14px; font-weight: 600; display: flex; align-items: center; gap: 6px; }
+  h1 .level { margin-left: auto; font-weight: 400; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  li { display: flex; align-items: center; gap: 6px; padding: 3px 0; }
+  a { color: inherit; text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  .dot { width: 8px; height: 8px; border-radius: 50%; flex: none; }
+  .level { margin-left: auto; color: ${theme.muted}; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${statusDot(overall)}${escapeHtml(options.title)}<span class="level">${
+    STATUS_LABELS[overall]
+  }</span></h1>
+<ul>
+${rows}
+</ul>
+</body>
+</html>
+`;
+}
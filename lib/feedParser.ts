@@ -0,0 +1,120 @@
+// lib/feedParser.ts
+import Parser from "rss-parser";
+import { toIso } from "./statusPageParsing";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+/**
+ * One RSS <item> or Atom <entry>, reduced to plain text.
+ */
+export interface FeedItem {
+  /** guid / Atom id, falling back to link or title */
+  id: string;
+  title: string;
+  /** Plain-text body (description / content / summary) */
+  text: string;
+  link?: string;
+  /** ISO 8601, when the feed gave a parseable date */
+  date?: string;
+}
+
+// ─────────────────────────────
+// TEXT HELPERS
+// ─────────────────────────────
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+};
+
+/**
+ * Decode HTML entities left over after XML parsing (feeds often double-escape
+ * their HTML bodies, so "&amp;nbsp;" arrives here as "&nbsp;").
+ */
+export function decodeEntities(input: string): string {
+  return input.replace(
+    /&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1] === "x" || entity[1] === "X"
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        // fromCodePoint throws past U+10FFFF; keep malformed entities as-is
+        return Number.isFinite(code) && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    }
+  );
+}
+
+/**
+ * Strip HTML / CDATA, decode entities and normalize whitespace.
+ */
+export function stripHtml(input: string): string {
+  if (!input) return "";
+  return decodeEntities(
+    input
+      .replace(/<!\[CDATA\[/g, "")
+      .replace(/\]\]>/g, "")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ─────────────────────────────
+// PARSING
+// ─────────────────────────────
+
+const parser = new Parser();
+
+/**
+ * Parse an RSS 2.0 or Atom document into plain-text items, newest first.
+ * Throws SyntaxError when the document isn't a feed.
+ */
+export async function parseFeed(xml: string): Promise<FeedItem[]> {
+  let feed: Parser.Output<Record<string, unknown>>;
+  try {
+    feed = await parser.parseString(xml);
+  } catch (err) {
+    throw new SyntaxError(`Invalid RSS/Atom feed: ${(err as Error).message}`);
+  }
+
+  const items = feed.items.map((item) => {
+    const title = stripHtml(item.title ?? "");
+    const text = stripHtml(
+      item.content ?? item.summary ?? item.contentSnippet ?? ""
+    );
+    const link = item.link?.trim() || undefined;
+
+    return {
+      id: item.guid ?? (item.id as string | undefined) ?? link ?? title,
+      title,
+      text,
+      link,
+      date: toIso(item.isoDate ?? item.pubDate),
+    };
+  });
+
+  // Feeds are usually newest-first, but don't rely on it
+  return items.sort(
+    (a, b) =>
+      (b.date ? Date.parse(b.date) : 0) - (a.date ? Date.parse(a.date) : 0)
+  );
+}
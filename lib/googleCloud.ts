@@ -0,0 +1,120 @@
+// lib/googleCloud.ts
+// Parser for the Google Cloud status feed
+// (https://status.cloud.google.com/incidents.json).
+import { DEFAULT_RSS_RULES, detectPhase } from "./rssIncidents";
+import { maxStatus, type StatusLevel } from "./statusLevels";
+import type {
+  ParsedStatusPage,
+  StatusComponent,
+  StatusIncident,
+} from "./statusSources";
+import { finishStatusPage, toIso } from "./statusPageParsing";
+
+// Subset of the incidents.json shape we read
+interface GcpUpdate {
+  text?: string;
+  when?: string;
+}
+
+interface GcpIncident {
+  id: string;
+  external_desc?: string;
+  begin?: string;
+  end?: string;
+  modified?: string;
+  uri?: string;
+  status_impact?: string;
+  most_recent_update?: GcpUpdate;
+  updates?: GcpUpdate[];
+  affected_products?: { title: string; id: string }[];
+}
+
+// The feed holds years of history; beyond the open ones keep a few
+const RECENT_RESOLVED = 5;
+
+/**
+ * Google Cloud `status_impact` → StatusLevel.
+ */
+export function gcpImpactLevel(impact?: string): StatusLevel {
+  switch (impact) {
+    case "SERVICE_OUTAGE":
+      return "major_outage";
+    case "SERVICE_DISRUPTION":
+      return "partial_outage";
+    default:
+      return "degraded";
+  }
+}
+
+/**
+ * Open incidents (no `end`) drive the status; each affected product becomes
+ * a component at the worst impact of the open incidents touching it.
+ */
+export function parseGoogleCloudIncidents(
+  data: unknown,
+  detailUrl: string
+): ParsedStatusPage {
+  if (!Array.isArray(data)) {
+    throw new SyntaxError("Google Cloud feed is not an incident array");
+  }
+
+  const products = new Map<string, StatusComponent>();
+  const open: StatusIncident[] = [];
+  const resolved: StatusIncident[] = [];
+
+  for (const incident of data as GcpIncident[]) {
+    const ended = !!incident.end;
+    const impact = gcpImpactLevel(incident.status_impact);
+    const names = (incident.affected_products ?? []).map((p) => p.title);
+
+    // Update text often mentions "resolved" while still open; open incidents
+    // stay open until the feed sets `end`
+    const phase = ended
+      ? "resolved"
+      : detectPhase(incident.most_recent_update?.text ?? "", DEFAULT_RSS_RULES);
+
+    const normalized: StatusIncident = {
+      id: incident.id,
+      title: incident.external_desc?.trim() || "Incident",
+      phase: !ended && phase === "resolved" ? "monitoring" : phase,
+      impact,
+      startedAt: toIso(incident.begin),
+      updatedAt: toIso(incident.modified ?? incident.most_recent_update?.when),
+      resolvedAt: toIso(incident.end),
+      link: incident.uri
+        ? new URL(incident.uri, "https://status.cloud.google.com/").toString()
+        : detailUrl,
+      components: names,
+      updates: [...(incident.updates ?? [])]
+        .sort((a, b) => (b.when ?? "").localeCompare(a.when ?? ""))
+        .map((update) => ({
+          phase: detectPhase(update.text ?? "", DEFAULT_RSS_RULES),
+          body: update.text ?? "",
+          at: toIso(update.when),
+        })),
+    };
+
+    if (ended) {
+      resolved.push(normalized);
+      continue;
+    }
+    open.push(normalized);
+    for (const product of incident.affected_products ?? []) {
+      const current = products.get(product.id);
+      products.set(product.id, {
+        id: product.id,
+        name: product.title,
+        status: maxStatus(current?.status ?? "operational", impact),
+      });
+    }
+  }
+
+  resolved.sort((a, b) => (b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""));
+
+  return finishStatusPage(
+    "operational",
+    [...open, ...resolved.slice(0, RECENT_RESOLVED)],
+    [...products.values()],
+    []
+  );
+}
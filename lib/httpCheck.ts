@@ -0,0 +1,179 @@
+// lib/httpCheck.ts
+// Synthetic HTTP checks for our own endpoints: expected status codes, body
+// assertions and latency thresholds, each mapped onto a StatusLevel.
+import { maxStatus, type StatusLevel } from "./statusLevels";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+export const HTTP_CHECK_METHODS = [
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "OPTIONS",
+] as const;
+
+export type HttpCheckMethod = (typeof HTTP_CHECK_METHODS)[number];
+
+export type CheckFailureLevel = Exclude<StatusLevel, "unknown" | "operational">;
+
+/**
+ * One body assertion: either a JSON path (optionally compared with `equals`,
+ * otherwise it just has to exist) or a regular expression the raw body must
+ * match.
+ */
+export type HttpCheckAssertion = (
+  | { jsonPath: string; equals?: unknown }
+  | { regex: string; flags?: string }
+) & {
+  /** Level when the assertion fails (default "major_outage") */
+  level?: CheckFailureLevel;
+};
+
+export interface HttpCheckConfig {
+  method?: HttpCheckMethod;
+  /** Values may be "env:VAR_NAME" */
+  headers?: Record<string, string>;
+  body?: string;
+  /** Accepted status codes (default: any 2xx) */
+  expectedStatus?: number[];
+  assertions?: HttpCheckAssertion[];
+  /** Response time (headers + body) above which the check degrades */
+  latency?: { degradedMs?: number; majorOutageMs?: number };
+}
+
+export interface HttpCheckResponse {
+  status: number;
+  body: string;
+  elapsedMs: number;
+}
+
+export interface HttpCheckResult {
+  status: StatusLevel;
+  /** One line per failed expectation */
+  failures: string[];
+}
+
+// ─────────────────────────────
+// JSON PATH
+// ─────────────────────────────
+
+// "$.checks[0].status" → ["checks", 0, "status"]
+const PATH_SEGMENT = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\["([^"]*)"\]/y;
+
+/**
+ * Split a JSON path in the `$.a.b[0]["c d"]` subset into keys.
+ * Returns null for anything outside that subset.
+ */
+export function parseJsonPath(path: string): (string | number)[] | null {
+  if (!path.startsWith("$")) return null;
+
+  const keys: (string | number)[] = [];
+  PATH_SEGMENT.lastIndex = 1;
+  while (PATH_SEGMENT.lastIndex < path.length) {
+    const match = PATH_SEGMENT.exec(path);
+    if (!match) return null;
+    keys.push(match[2] !== undefined ? Number(match[2]) : match[1] ?? match[3]);
+  }
+  return keys;
+}
+
+function readJsonPath(data: unknown, keys: (string | number)[]): unknown {
+  let current = data;
+  for (const key of keys) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
+
+// ─────────────────────────────
+// EVALUATION
+// ─────────────────────────────
+
+function checkAssertion(
+  assertion: HttpCheckAssertion,
+  body: string,
+  json: () => unknown
+): string | null {
+  if ("regex" in assertion) {
+    return new RegExp(assertion.regex, assertion.flags).test(body)
+      ? null
+      : `body does not match /${assertion.regex}/`;
+  }
+
+  const data = json();
+  if (data === undefined) return "body is not valid JSON";
+
+  const keys = parseJsonPath(assertion.jsonPath);
+  if (!keys) return `${assertion.jsonPath} is not a valid JSON path`;
+  const value = readJsonPath(data, keys);
+  if (!("equals" in assertion)) {
+    return value === undefined ? `${assertion.jsonPath} is missing` : null;
+  }
+  return JSON.stringify(value) === JSON.stringify(assertion.equals)
+    ? null
+    : `${assertion.jsonPath} is ${JSON.stringify(
+        value
+      )}, expected ${JSON.stringify(assertion.equals)}`;
+}
+
+/**
+ * Grade a response against the check. Every failed expectation is reported;
+ * the status is the worst level among them.
+ */
+export function evaluateHttpCheck(
+  response: HttpCheckResponse,
+  check: HttpCheckConfig
+): HttpCheckResult {
+  const failures: string[] = [];
+  let status: StatusLevel = "operational";
+
+  const fail = (level: CheckFailureLevel, reason: string) => {
+    status = maxStatus(status, level);
+    failures.push(reason);
+  };
+
+  const expected = check.expectedStatus;
+  const statusOk = expected
+    ? expected.includes(response.status)
+    : response.status >= 200 && response.status < 300;
+  if (!statusOk) {
+    fail(
+      response.status >= 500 ? "major_outage" : "partial_outage",
+      `HTTP ${response.status}` +
+        (expected ? ` (expected ${expected.join(", ")})` : "")
+    );
+  }
+
+  // Parse lazily and once; most checks have no JSON assertions
+  let parsed: { value: unknown } | null = null;
+  const json = () => {
+    if (!parsed) {
+      try {
+        parsed = { value: JSON.parse(response.body) };
+      } catch {
+        parsed = { value: undefined };
+      }
+    }
+    return parsed.value;
+  };
+
+  for (const assertion of check.assertions ?? []) {
+    const failure = checkAssertion(assertion, response.body, json);
+    if (failure) fail(assertion.level ?? "major_outage", failure);
+  }
+
+  const { degradedMs, majorOutageMs } = check.latency ?? {};
+  if (majorOutageMs !== undefined && response.elapsedMs > majorOutageMs) {
+    fail("major_outage", `slow response (> ${majorOutageMs} ms)`);
+  } else if (degradedMs !== undefined && response.elapsedMs > degradedMs) {
+    fail("degraded", `slow response (> ${degradedMs} ms)`);
+  }
+
+  return { status, failures };
+}
@@ -0,0 +1,136 @@
+// lib/incidentIo.ts
+// Parser for the public widget API of incident.io status pages
+// (https://<status page>/api/widget).
+import type { StatusLevel } from "./statusLevels";
+import type {
+  ParsedStatusPage,
+  StatusComponent,
+  StatusIncident,
+  StatusMaintenance,
+} from "./statusSources";
+import { finishStatusPage, phaseFromStatus, toIso } from "./statusPageParsing";
+
+// Subset of the widget shape we read
+interface IncidentIoComponent {
+  id: string;
+  name: string;
+  group_name?: string;
+  current_status?: string;
+}
+
+interface IncidentIoIncident {
+  id: string;
+  name?: string;
+  status?: string;
+  url?: string;
+  last_update_at?: string;
+  last_update_message?: string;
+  current_worst_impact?: string;
+  affected_components?: IncidentIoComponent[];
+}
+
+interface IncidentIoMaintenance {
+  id: string;
+  name?: string;
+  url?: string;
+  started_at?: string;
+  starts_at?: string;
+  scheduled_end_at?: string;
+  ends_at?: string;
+  affected_components?: IncidentIoComponent[];
+}
+
+interface IncidentIoWidget {
+  ongoing_incidents?: IncidentIoIncident[];
+  in_progress_maintenances?: IncidentIoMaintenance[];
+  scheduled_maintenances?: IncidentIoMaintenance[];
+}
+
+/**
+ * incident.io impact / component status → StatusLevel.
+ * "under_maintenance" is operational; maintenance is tracked apart.
+ */
+export function incidentIoLevel(value?: string): StatusLevel {
+  switch (value) {
+    case "operational":
+    case "under_maintenance":
+      return "operational";
+    case "degraded_performance":
+      return "degraded";
+    case "partial_outage":
+      return "partial_outage";
+    case "full_outage":
+      return "major_outage";
+    default:
+      return "degraded";
+  }
+}
+
+function toMaintenance(
+  m: IncidentIoMaintenance,
+  state: StatusMaintenance["state"],
+  detailUrl: string
+): StatusMaintenance {
+  return {
+    id: m.id,
+    title: m.name ?? "Maintenance",
+    state,
+    scheduledFor: toIso(m.started_at ?? m.starts_at),
+    scheduledUntil: toIso(m.scheduled_end_at ?? m.ends_at),
+    components: m.affected_components?.map((c) => c.name),
+    link: m.url ?? detailUrl,
+  };
+}
+
+/**
+ * The widget only lists what is currently wrong: ongoing incidents and their
+ * affected components, plus maintenance. Everything else is operational.
+ */
+export function parseIncidentIoWidget(
+  data: unknown,
+  detailUrl: string
+): ParsedStatusPage {
+  if (typeof data !== "object" || data === null) {
+    throw new SyntaxError("incident.io widget response is not an object");
+  }
+  const widget = data as IncidentIoWidget;
+
+  const components = new Map<string, StatusComponent>();
+  const incidents: StatusIncident[] = (widget.ongoing_incidents ?? []).map(
+    (incident) => {
+      for (const c of incident.affected_components ?? []) {
+        components.set(c.id, {
+          id: c.id,
+          name: c.name,
+          status: incidentIoLevel(c.current_status),
+          group: c.group_name,
+        });
+      }
+      return {
+        id: incident.id,
+        title: incident.name ?? "Incident",
+        phase: phaseFromStatus(incident.status),
+        impact: incidentIoLevel(incident.current_worst_impact),
+        updatedAt: toIso(incident.last_update_at),
+        link: incident.url ?? detailUrl,
+        components: incident.affected_components?.map((c) => c.name),
+      };
+    }
+  );
+
+  const maintenances = [
+    ...(widget.in_progress_maintenances ?? []).map((m) =>
+      toMaintenance(m, "in_progress", detailUrl)
+    ),
+    ...(widget.scheduled_maintenances ?? []).map((m) =>
+      toMaintenance(m, "scheduled", detailUrl)
+    ),
+  ];
+
+  return finishStatusPage(
+    "operational",
+    incidents,
+    [...components.values()],
+    maintenances
+  );
+}
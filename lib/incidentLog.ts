@@ -0,0 +1,413 @@
+// lib/incidentLog.ts
+// Every incident a provider has reported, kept long after it leaves the
+// vendor's feed, for vendor reviews: start, end, worst impact, affected
+// components, and time to resolve per provider.
+import { jsonError, jsonWithEtag, withEtag } from "./apiResponse";
+import { readJsonStore, writeJsonStore } from "./dataStore";
+import { maxStatus, type StatusLevel } from "./statusLevels";
+import type {
+  IncidentPhase,
+  StatusIncident,
+  StatusSummary,
+} from "./statusSources";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+export interface LoggedIncident {
+  /** The vendor's incident id (RSS: link or title) */
+  id: string;
+  provider: string;
+  providerName: string;
+  title: string;
+  link?: string;
+  phase: IncidentPhase;
+  /** Worst impact reported at any point */
+  maxImpact: StatusLevel;
+  /** Every component the incident was reported against */
+  components: string[];
+  /** The vendor's start time, or when we first saw the incident */
+  startedAt: string;
+  /**
+   * The vendor's resolution time, or the first poll that no longer listed
+   * the incident (feeds like Statuspage summaries only carry open ones).
+   */
+  resolvedAt?: string;
+  firstSeenAt: string;
+}
+
+export interface IncidentQuery {
+  /** Provider ids; empty means all */
+  providers: string[];
+  /** Incidents still open at or after this time (ms) */
+  from?: number;
+  /** Incidents started before this time (ms) */
+  to?: number;
+  /** Free text matched against titles, provider names and components */
+  q: string;
+}
+
+export interface ProviderIncidentStats {
+  provider: string;
+  providerName: string;
+  incidents: number;
+  resolved: number;
+  /** Mean time to resolve over resolved incidents, or null without any */
+  mttrMs: number | null;
+  /** Total resolved incident time */
+  totalMs: number;
+}
+
+type IncidentLogFile = Record<string, LoggedIncident[]>;
+
+const INCIDENT_LOG_FILE = "incident-log.json";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A year of quarterly reviews, plus the quarter before it
+const RETENTION_DAYS = 460;
+
+// Written by the poller, read by pages and routes in other Next bundles;
+// share one copy like lib/overrides.ts does.
+const STATE_KEY = Symbol.for("infra-status-dashboard.incidentLog");
+
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  data: null,
+  writeQueue: Promise.resolve(),
+}) as { data: IncidentLogFile | null; writeQueue: Promise<unknown> };
+
+// ─────────────────────────────
+// RECORDING
+// ─────────────────────────────
+
+async function loadIncidentLog(): Promise<IncidentLogFile> {
+  state.data ??= await readJsonStore<IncidentLogFile>(INCIDENT_LOG_FILE, {});
+  return state.data;
+}
+
+/**
+ * Fold one feed report of an incident into its log entry. Returns true when
+ * the entry changed.
+ */
+function mergeIncident(
+  entry: LoggedIncident,
+  incident: StatusIncident,
+  at: string
+): boolean {
+  const before = JSON.stringify(entry);
+
+  entry.title = incident.title;
+  entry.link = incident.link ?? entry.link;
+  entry.phase = incident.phase;
+  entry.maxImpact = maxStatus(entry.maxImpact, incident.impact);
+  entry.components = [
+    ...new Set([...entry.components, ...(incident.components ?? [])]),
+  ];
+  if (incident.startedAt && incident.startedAt < entry.startedAt) {
+    entry.startedAt = incident.startedAt;
+  }
+  entry.resolvedAt =
+    incident.phase === "resolved"
+      ? incident.resolvedAt ?? entry.resolvedAt ?? at
+      : undefined;
+
+  return JSON.stringify(entry) !== before;
+}
+
+/**
+ * Record the incidents in one poll result. Entries are matched by incident
+ * id only: many adapters give every incident the status page's URL as its
+ * link, so links say nothing about identity. Open entries the feed no
+ * longer lists are closed at this poll; failed polls leave the log alone,
+ * since they say nothing about the vendor's incidents.
+ */
+export function recordIncidents(
+  summary: StatusSummary,
+  now: Date = new Date()
+): Promise<void> {
+  if (summary.error) return Promise.resolve();
+
+  const run = state.writeQueue.then(async () => {
+    const data = await loadIncidentLog();
+    const at = now.toISOString();
+    const cutoff = now.getTime() - RETENTION_DAYS * DAY_MS;
+    const entries = (data[summary.id] ?? []).filter(
+      (e) => !e.resolvedAt || Date.parse(e.resolvedAt) >= cutoff
+    );
+    let changed = entries.length !== data[summary.id]?.length;
+    const seen = new Set<LoggedIncident>();
+
+    for (const incident of summary.incidents ?? []) {
+      let entry = entries.find((e) => e.id === incident.id);
+      if (!entry) {
+        entry = {
+          id: incident.id,
+          provider: summary.id,
+          providerName: summary.name,
+          title: incident.title,
+          phase: incident.phase,
+          maxImpact: incident.impact,
+          components: [],
+          startedAt: incident.startedAt ?? at,
+          firstSeenAt: at,
+        };
+        entries.push(entry);
+        changed = true;
+      }
+      entry.providerName = summary.name;
+      changed = mergeIncident(entry, incident, at) || changed;
+      seen.add(entry);
+    }
+
+    for (const entry of entries) {
+      if (!seen.has(entry) && !entry.resolvedAt) {
+        entry.phase = "resolved";
+        entry.resolvedAt = at;
+        changed = true;
+      }
+    }
+
+    if (!changed) return;
+    data[summary.id] = entries;
+    await writeJsonStore(INCIDENT_LOG_FILE, data);
+  });
+
+  state.writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+// ─────────────────────────────
+// QUERYING
+// ─────────────────────────────
+
+/**
+ * Milliseconds from start to resolution, or null while open.
+ */
+export function getIncidentDurationMs(incident: LoggedIncident): number | null {
+  if (!incident.resolvedAt) return null;
+  return Math.max(
+    0,
+    Date.parse(incident.resolvedAt) - Date.parse(incident.startedAt)
+  );
+}
+
+function matchesQuery(incident: LoggedIncident, query: IncidentQuery): boolean {
+  const start = Date.parse(incident.startedAt);
+  const end = incident.resolvedAt ? Date.parse(incident.resolvedAt) : Infinity;
+  const needle = query.q.trim().toLowerCase();
+
+  return (
+    (!query.providers.length || query.providers.includes(incident.provider)) &&
+    (query.from === undefined || end >= query.from) &&
+    (query.to === undefined || start < query.to) &&
+    (!needle ||
+      [incident.title, incident.providerName, ...incident.components].some(
+        (text) => text.toLowerCase().includes(needle)
+      ))
+  );
+}
+
+/**
+ * Logged incidents overlapping the query's date range, newest first.
+ */
+export async function queryIncidents(
+  query: IncidentQuery
+): Promise<LoggedIncident[]> {
+  const data = await loadIncidentLog();
+  return Object.values(data)
+    .flat()
+    .filter((incident) => matchesQuery(incident, query))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Incident counts and mean time to resolve per provider, in the order
+ * providers first appear in `incidents`.
+ */
+export function getIncidentStats(
+  incidents: LoggedIncident[]
+): ProviderIncidentStats[] {
+  const stats = new Map<string, ProviderIncidentStats>();
+
+  for (const incident of incidents) {
+    let s = stats.get(incident.provider);
+    if (!s) {
+      s = {
+        provider: incident.provider,
+        providerName: incident.providerName,
+        incidents: 0,
+        resolved: 0,
+        mttrMs: null,
+        totalMs: 0,
+      };
+      stats.set(incident.provider, s);
+    }
+
+    s.incidents += 1;
+    const duration = getIncidentDurationMs(incident);
+    if (duration !== null) {
+      s.resolved += 1;
+      s.totalMs += duration;
+      s.mttrMs = Math.round(s.totalMs / s.resolved);
+    }
+  }
+
+  return [...stats.values()];
+}
+
+// ─────────────────────────────
+// REQUEST PARAMS
+// ─────────────────────────────
+
+// "2026-07-01" is a whole UTC day; full ISO timestamps are taken as-is
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDateParam(
+  value: string | null,
+  name: string,
+  endOfDay: boolean,
+  issues: string[]
+): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(DAY_PATTERN.test(value) ? `${value}T00:00Z` : value);
+  if (Number.isNaN(time)) {
+    issues.push(`${name}: must be a date (YYYY-MM-DD) or ISO timestamp`);
+    return undefined;
+  }
+  return endOfDay && DAY_PATTERN.test(value) ? time + DAY_MS : time;
+}
+
+/**
+ * Read `provider` (comma-separated ids), `from`, `to` (inclusive days or
+ * ISO timestamps) and `q` from a URL's search params. Unknown provider ids
+ * are reported as issues.
+ */
+export function parseIncidentQuery(
+  params: URLSearchParams,
+  knownProviders: string[]
+): { query: IncidentQuery; issues: string[] } {
+  const issues: string[] = [];
+  const providers = (params.get("provider") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  const unknown = providers.filter((id) => !knownProviders.includes(id));
+  if (unknown.length) {
+    issues.push(`provider: unknown id ${unknown.join(", ")}`);
+  }
+
+  const query: IncidentQuery = {
+    providers,
+    from: parseDateParam(params.get("from"), "from", false, issues),
+    to: parseDateParam(params.get("to"), "to", true, issues),
+    q: params.get("q")?.trim() ?? "",
+  };
+  if (
+    query.from !== undefined &&
+    query.to !== undefined &&
+    query.from >= query.to
+  ) {
+    issues.push("to: must be after from");
+  }
+
+  return { query, issues };
+}
+
+// ─────────────────────────────
+// CSV
+// ─────────────────────────────
+
+// RFC 4180: quote fields with separators, quotes or line breaks
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(
+  header: string[],
+  rows: (string | number | null | undefined)[][]
+) {
+  return (
+    [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") +
+    "\r\n"
+  );
+}
+
+export function incidentsToCsv(incidents: LoggedIncident[]): string {
+  return toCsv(
+    [
+      "provider",
+      "provider_name",
+      "incident_id",
+      "title",
+      "started_at",
+      "resolved_at",
+      "duration_minutes",
+      "max_impact",
+      "components",
+      "link",
+    ],
+    incidents.map((i) => {
+      const duration = getIncidentDurationMs(i);
+      return [
+        i.provider,
+        i.providerName,
+        i.id,
+        i.title,
+        i.startedAt,
+        i.resolvedAt,
+        duration === null ? null : Math.round(duration / 60000),
+        i.maxImpact,
+        i.components.join("; "),
+        i.link,
+      ];
+    })
+  );
+}
+
+export function incidentStatsToCsv(stats: ProviderIncidentStats[]): string {
+  return toCsv(
+    [
+      "provider",
+      "provider_name",
+      "incidents",
+      "resolved",
+      "mttr_minutes",
+      "total_minutes",
+    ],
+    stats.map((s) => [
+      s.provider,
+      s.providerName,
+      s.incidents,
+      s.resolved,
+      s.mttrMs === null ? null : Math.round(s.mttrMs / 60000),
+      Math.round(s.totalMs / 60000),
+    ])
+  );
+}
+
+// ─────────────────────────────
+// RESPONSES
+// ─────────────────────────────
+
+/**
+ * `?format=csv` → a CSV download named `<filename>.csv`; otherwise JSON.
+ * An unsupported format is a 400.
+ */
+export function incidentExportResponse(
+  request: Request,
+  filename: string,
+  json: unknown,
+  csv: () => string
+): Response {
+  const format = new URL(request.url).searchParams.get("format") ?? "json";
+  if (format === "json") return jsonWithEtag(request, json);
+  if (format !== "csv") {
+    return jsonError(400, "format: must be json or csv");
+  }
+  return withEtag(request, csv(), "text/csv; charset=utf-8", {
+    headers: {
+      "Content-Disposition": `attachment; filename="${filename}.csv"`,
+    },
+  });
+}
@@ -0,0 +1,122 @@
+// lib/instatus.ts
+// Parser for Instatus public pages (https://<page>.instatus.com/summary.json).
+import type { StatusLevel } from "./statusLevels";
+import type {
+  ParsedStatusPage,
+  StatusComponent,
+  StatusIncident,
+  StatusMaintenance,
+} from "./statusSources";
+import { finishStatusPage, phaseFromStatus, toIso } from "./statusPageParsing";
+
+// Subset of the summary.json shape we read
+interface InstatusIncident {
+  id: string;
+  name?: string;
+  started?: string;
+  updatedAt?: string;
+  status?: string;
+  impact?: string;
+  url?: string;
+}
+
+interface InstatusMaintenance {
+  id: string;
+  name?: string;
+  start?: string;
+  duration?: number | string;
+  status?: string;
+  url?: string;
+}
+
+interface InstatusComponent {
+  id: string;
+  name: string;
+  status?: string;
+  group?: { name?: string } | null;
+}
+
+interface InstatusSummary {
+  page?: { name?: string; status?: string };
+  activeIncidents?: InstatusIncident[];
+  activeMaintenances?: InstatusMaintenance[];
+  components?: InstatusComponent[];
+}
+
+/**
+ * Instatus component status / incident impact → StatusLevel.
+ * "UNDERMAINTENANCE" is operational; maintenance is tracked apart.
+ */
+export function instatusLevel(value?: string): StatusLevel {
+  switch (value?.toUpperCase()) {
+    case "OPERATIONAL":
+    case "UP":
+    case "UNDERMAINTENANCE":
+      return "operational";
+    case "DEGRADEDPERFORMANCE":
+    case "HASISSUES":
+      return "degraded";
+    case "PARTIALOUTAGE":
+      return "partial_outage";
+    case "MAJOROUTAGE":
+      return "major_outage";
+    default:
+      return "degraded";
+  }
+}
+
+function maintenanceEnd(m: InstatusMaintenance): string | undefined {
+  const start = m.start ? Date.parse(m.start) : NaN;
+  const minutes = Number(m.duration);
+  return Number.isFinite(start) && Number.isFinite(minutes)
+    ? toIso(start + minutes * 60 * 1000)
+    : undefined;
+}
+
+export function parseInstatusSummary(
+  data: unknown,
+  detailUrl: string
+): ParsedStatusPage {
+  if (typeof data !== "object" || data === null || !("page" in data)) {
+    throw new SyntaxError("Instatus summary has no page object");
+  }
+  const summary = data as InstatusSummary;
+
+  const incidents: StatusIncident[] = (summary.activeIncidents ?? []).map(
+    (incident) => ({
+      id: incident.id,
+      title: incident.name ?? "Incident",
+      phase: phaseFromStatus(incident.status),
+      impact: instatusLevel(incident.impact),
+      startedAt: toIso(incident.started),
+      updatedAt: toIso(incident.updatedAt ?? incident.started),
+      link: incident.url ?? detailUrl,
+    })
+  );
+
+  const maintenances: StatusMaintenance[] = (summary.activeMaintenances ?? [])
+    .filter((m) => m.status?.toUpperCase() !== "COMPLETED")
+    .map((m) => ({
+      id: m.id,
+      title: m.name ?? "Maintenance",
+      state:
+        m.status?.toUpperCase() === "INPROGRESS" ? "in_progress" : "scheduled",
+      scheduledFor: toIso(m.start),
+      scheduledUntil: maintenanceEnd(m),
+      link: m.url ?? detailUrl,
+    }));
+
+  const components: StatusComponent[] = (summary.components ?? []).map((c) => ({
+    id: c.id,
+    name: c.name,
+    status: instatusLevel(c.status),
+    group: c.group?.name,
+  }));
+
+  return finishStatusPage(
+    instatusLevel(summary.page?.status),
+    incidents,
+    components,
+    maintenances
+  );
+}
@@ -0,0 +1,236 @@
+// lib/metrics.ts
+// Prometheus / OpenMetrics exposition of provider statuses, plus the fetch
+// timings recorded by getProviderStatus.
+import type { StatusLevel } from "./statusLevels";
+import type { StatusSummary } from "./statusSources";
+
+// ─────────────────────────────
+// FETCH INSTRUMENTATION
+// ─────────────────────────────
+
+// Upper bounds (seconds) of the fetch duration histogram buckets
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20];
+
+interface FetchStats {
+  /** Cumulative counts per bucket, same order as DURATION_BUCKETS */
+  buckets: number[];
+  count: number;
+  sum: number;
+  lastSuccess: boolean;
+}
+
+// Shared across Next bundles like the poller state (see lib/poller.ts)
+const STATE_KEY = Symbol.for("infra-status-dashboard.metrics");
+
+const fetchStats = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??=
+  new Map()) as Map<string, FetchStats>;
+
+/**
+ * Record one fetch attempt (retries count separately).
+ */
+export function recordFetch(
+  providerId: string,
+  seconds: number,
+  success: boolean
+): void {
+  let stats = fetchStats.get(providerId);
+  if (!stats) {
+    stats = {
+      buckets: DURATION_BUCKETS.map(() => 0),
+      count: 0,
+      sum: 0,
+      lastSuccess: success,
+    };
+    fetchStats.set(providerId, stats);
+  }
+
+  DURATION_BUCKETS.forEach((bound, i) => {
+    if (seconds <= bound) stats.buckets[i] += 1;
+  });
+  stats.count += 1;
+  stats.sum += seconds;
+  stats.lastSuccess = success;
+}
+
+// ─────────────────────────────
+// EXPOSITION
+// ─────────────────────────────
+
+export type MetricsFormat = "prometheus" | "openmetrics";
+
+export const METRICS_CONTENT_TYPES: Record<MetricsFormat, string> = {
+  prometheus: "text/plain; version=0.0.4; charset=utf-8",
+  openmetrics: "application/openmetrics-text; version=1.0.0; charset=utf-8",
+};
+
+// Numeric status for alert rules: higher is worse, -1 means unreachable
+export const LEVEL_VALUES: Record<StatusLevel, number> = {
+  unknown: -1,
+  operational: 0,
+  degraded: 1,
+  partial_outage: 2,
+  major_outage: 3,
+};
+
+type Labels = Record<string, string | undefined>;
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${escapeLabel(value!)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+// OpenMetrics wants canonical floats for `le` ("1.0", not "1")
+function formatBound(bound: number): string {
+  return Number.isInteger(bound) ? bound.toFixed(1) : String(bound);
+}
+
+interface MetricFamily {
+  name: string;
+  type: "gauge" | "histogram";
+  help: string;
+  samples: string[];
+}
+
+function addSample(
+  family: MetricFamily,
+  labels: Labels,
+  value: number,
+  suffix = ""
+): void {
+  family.samples.push(
+    `${family.name}${suffix}${formatLabels(labels)} ${value}`
+  );
+}
+
+function formatFamilies(
+  families: MetricFamily[],
+  format: MetricsFormat
+): string {
+  const lines: string[] = [];
+  for (const { name, type, help, samples } of families) {
+    if (!samples.length) continue;
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples);
+  }
+  if (format === "openmetrics") lines.push("# EOF");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render every provider's status as metric families:
+ *
+ * - `vendor_status_level` / `vendor_status_component_level` (LEVEL_VALUES)
+ * - `vendor_status_fetch_success` (last fetch attempt answered)
+ * - `vendor_status_fetch_duration_seconds` (histogram of fetch attempts)
+ * - `vendor_status_seconds_since_update` (since the last good answer)
+ * - `vendor_status_active_incidents`
+ */
+export function renderMetrics(
+  statuses: StatusSummary[],
+  format: MetricsFormat,
+  now: number = Date.now()
+): string {
+  const level: MetricFamily = {
+    name: "vendor_status_level",
+    type: "gauge",
+    help: "Provider status: -1 unreachable, 0 operational, 1 degraded, 2 partial outage, 3 major outage.",
+    samples: [],
+  };
+  const componentLevel: MetricFamily = {
+    name: "vendor_status_component_level",
+    type: "gauge",
+    help: "Component status on the provider's status page, same scale as vendor_status_level.",
+    samples: [],
+  };
+  const success: MetricFamily = {
+    name: "vendor_status_fetch_success",
+    type: "gauge",
+    help: "1 if the latest fetch of the provider's feed succeeded, else 0.",
+    samples: [],
+  };
+  const duration: MetricFamily = {
+    name: "vendor_status_fetch_duration_seconds",
+    type: "histogram",
+    help: "Duration of status feed fetch attempts, retries included.",
+    samples: [],
+  };
+  const sinceUpdate: MetricFamily = {
+    name: "vendor_status_seconds_since_update",
+    type: "gauge",
+    help: "Seconds since the provider's feed last answered.",
+    samples: [],
+  };
+  const incidents: MetricFamily = {
+    name: "vendor_status_active_incidents",
+    type: "gauge",
+    help: "Unresolved incidents reported by the provider.",
+    samples: [],
+  };
+
+  for (const s of statuses) {
+    const provider = { provider: s.id };
+    addSample(
+      level,
+      {
+        ...provider,
+        name: s.name,
+        group: s.group,
+        critical: String(s.critical !== false),
+      },
+      LEVEL_VALUES[s.status]
+    );
+
+    for (const c of s.components ?? []) {
+      addSample(
+        componentLevel,
+        {
+          ...provider,
+          component: c.name,
+          component_id: c.id,
+          component_group: c.group,
+        },
+        LEVEL_VALUES[c.status]
+      );
+    }
+
+    const stats = fetchStats.get(s.id);
+    if (stats) {
+      addSample(success, provider, stats.lastSuccess ? 1 : 0);
+      DURATION_BUCKETS.forEach((bound, i) =>
+        addSample(
+          duration,
+          { ...provider, le: formatBound(bound) },
+          stats.buckets[i],
+          "_bucket"
+        )
+      );
+      addSample(duration, { ...provider, le: "+Inf" }, stats.count, "_bucket");
+      addSample(duration, provider, stats.sum, "_sum");
+      addSample(duration, provider, stats.count, "_count");
+    }
+
+    if (s.fetchedAt) {
+      const seconds = (now - Date.parse(s.fetchedAt)) / 1000;
+      addSample(sinceUpdate, provider, Math.max(0, Math.round(seconds)));
+    }
+
+    addSample(
+      incidents,
+      provider,
+      (s.incidents ?? []).filter((i) => i.phase !== "resolved").length
+    );
+  }
+
+  return formatFamilies(
+    [level, componentLevel, success, duration, sinceUpdate, incidents],
+    format
+  );
+}
@@ -0,0 +1,414 @@
+// lib/notifier.ts
+import { existsSync } from "node:fs";
+import nodemailer from "nodemailer";
+import {
+  ConfigError,
+  isHttpUrl,
+  isRecord,
+  readJsonConfigFile,
+  resolveSecret,
+} from "./configFile";
+import { readJsonStore, writeJsonStore } from "./dataStore";
+import { getProviderConfig } from "./providerConfig";
+import {
+  STATUS_COLORS,
+  STATUS_LABELS,
+  STATUS_ORDER,
+  isAcknowledged,
+  statusSeverity,
+  type StatusLevel,
+} from "./statusLevels";
+import type { StatusSummary } from "./statusSources";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+export const CHANNEL_TYPES = ["webhook", "slack", "teams", "email"] as const;
+
+export type ChannelType = (typeof CHANNEL_TYPES)[number];
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export interface ChannelConfig {
+  id: string;
+  type: ChannelType;
+  /** webhook / slack / teams: incoming webhook URL (or "env:VAR_NAME") */
+  url?: string;
+  /** email only */
+  smtp?: SmtpSettings;
+  from?: string;
+  to?: string[];
+  /** Only changes to/from at least this level are sent (default "degraded") */
+  minSeverity: StatusLevel;
+  /** Provider ids routed to this channel; all providers when omitted */
+  providers?: string[];
+  /** Hold further alerts for a provider this long after one is sent */
+  cooldownMinutes: number;
+}
+
+export interface StatusChange {
+  id: string;
+  name: string;
+  from: StatusLevel;
+  to: StatusLevel;
+  at: string;
+  summary: StatusSummary;
+}
+
+// Last status each channel told people about, per provider.
+type NotifierState = Record<
+  string,
+  Record<string, { status: StatusLevel; notifiedAt?: string }>
+>;
+
+// Override with NOTIFICATIONS_CONFIG_PATH. A missing default file simply
+// means "no channels".
+const DEFAULT_CONFIG_PATH = "config/notifications.json";
+const STATE_FILE = "notifier-state.json";
+const SEND_TIMEOUT_MS = 10_000;
+
+// ─────────────────────────────
+// CONFIG
+// ─────────────────────────────
+
+export function validateNotificationsFile(
+  data: unknown,
+  file: string
+): ChannelConfig[] {
+  const issues: string[] = [];
+
+  if (!isRecord(data) || !Array.isArray(data.channels)) {
+    throw new ConfigError(file, ["channels: must be an array"]);
+  }
+
+  const channels: ChannelConfig[] = [];
+  data.channels.forEach((raw, i) => {
+    const at = `channels[${i}]`;
+    if (!isRecord(raw)) {
+      issues.push(`${at}: must be an object`);
+      return;
+    }
+    const label = typeof raw.id === "string" ? `${at} (${raw.id})` : at;
+
+    if (typeof raw.id !== "string" || !raw.id) {
+      issues.push(`${label}.id: must be a non-empty string`);
+    } else if (channels.some((c) => c.id === raw.id)) {
+      issues.push(`${label}.id: duplicate channel id`);
+    }
+    if (!CHANNEL_TYPES.includes(raw.type as ChannelType)) {
+      issues.push(
+        `${label}.type: must be one of ${CHANNEL_TYPES.join(", ")}` +
+          ` (got ${JSON.stringify(raw.type)})`
+      );
+    }
+
+    if (raw.type === "email") {
+      const smtp = raw.smtp;
+      if (
+        !isRecord(smtp) ||
+        typeof smtp.host !== "string" ||
+        typeof smtp.port !== "number"
+      ) {
+        issues.push(`${label}.smtp: must have a host and a numeric port`);
+      }
+      if (typeof raw.from !== "string") {
+        issues.push(`${label}.from: must be an email address`);
+      }
+      if (
+        !Array.isArray(raw.to) ||
+        !raw.to.length ||
+        raw.to.some((t) => typeof t !== "string")
+      ) {
+        issues.push(`${label}.to: must be a non-empty array of addresses`);
+      }
+    } else if (
+      typeof raw.url !== "string" ||
+      (!raw.url.startsWith("env:") && !isHttpUrl(raw.url))
+    ) {
+      issues.push(
+        `${label}.url: must be an absolute http(s) URL or "env:VAR_NAME"`
+      );
+    }
+
+    const minSeverity = raw.minSeverity ?? "degraded";
+    if (
+      !STATUS_ORDER.includes(minSeverity as StatusLevel) ||
+      minSeverity === "unknown"
+    ) {
+      issues.push(
+        `${label}.minSeverity: must be one of ${STATUS_ORDER.slice(1).join(
+          ", "
+        )}`
+      );
+    }
+    if (
+      raw.providers !== undefined &&
+      (!Array.isArray(raw.providers) ||
+        raw.providers.some((p) => typeof p !== "string"))
+    ) {
+      issues.push(`${label}.providers: must be an array of provider ids`);
+    }
+    const cooldown = raw.cooldownMinutes ?? 15;
+    if (typeof cooldown !== "number" || cooldown < 0) {
+      issues.push(`${label}.cooldownMinutes: must be a number >= 0`);
+    }
+
+    channels.push({
+      id: raw.id as string,
+      type: raw.type as ChannelType,
+      url: raw.url as string | undefined,
+      smtp: raw.smtp as SmtpSettings | undefined,
+      from: raw.from as string | undefined,
+      to: raw.to as string[] | undefined,
+      minSeverity: minSeverity as StatusLevel,
+      providers: raw.providers as string[] | undefined,
+      cooldownMinutes: cooldown as number,
+    });
+  });
+
+  if (issues.length) throw new ConfigError(file, issues);
+
+  return channels;
+}
+
+let cachedChannels: ChannelConfig[] | null = null;
+
+export function getNotificationChannels(): ChannelConfig[] {
+  if (!cachedChannels) {
+    const configured = process.env.NOTIFICATIONS_CONFIG_PATH;
+    if (!configured && !existsSync(DEFAULT_CONFIG_PATH)) {
+      cachedChannels = [];
+    } else {
+      const { path, data } = readJsonConfigFile(
+        configured || DEFAULT_CONFIG_PATH
+      );
+      cachedChannels = validateNotificationsFile(data, path);
+    }
+  }
+  return cachedChannels;
+}
+
+// ─────────────────────────────
+// PAYLOADS
+// ─────────────────────────────
+
+function describeChange(change: StatusChange): string {
+  return `${change.name}: ${STATUS_LABELS[change.from]} → ${
+    STATUS_LABELS[change.to]
+  }`;
+}
+
+function slackPayload(change: StatusChange) {
+  const { summary } = change;
+  const lines = [`*${describeChange(change)}*`];
+  if (summary.message) lines.push(summary.message);
+  if (summary.detailUrl) lines.push(`<${summary.detailUrl}|View status page>`);
+
+  return {
+    text: describeChange(change),
+    attachments: [
+      { color: `#${STATUS_COLORS[change.to]}`, text: lines.join("\n") },
+    ],
+  };
+}
+
+function teamsPayload(change: StatusChange) {
+  const { summary } = change;
+  return {
+    "@type": "MessageCard",
+    "@context": "https://schema.org/extensions",
+    summary: describeChange(change),
+    themeColor: STATUS_COLORS[change.to],
+    title: describeChange(change),
+    text: summary.message ?? "",
+    potentialAction: summary.detailUrl
+      ? [
+          {
+            "@type": "OpenUri",
+            name: "View status page",
+            targets: [{ os: "default", uri: summary.detailUrl }],
+          },
+        ]
+      : [],
+  };
+}
+
+function webhookPayload(change: StatusChange) {
+  return {
+    event: "status_change",
+    provider: { id: change.id, name: change.name },
+    from: change.from,
+    to: change.to,
+    at: change.at,
+    message: change.summary.message,
+    detailUrl: change.summary.detailUrl,
+    latestItems: change.summary.latestItems ?? [],
+  };
+}
+
+// ─────────────────────────────
+// CHANNELS
+// ─────────────────────────────
+
+async function postJson(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+async function sendEmail(channel: ChannelConfig, change: StatusChange) {
+  const smtp = channel.smtp as SmtpSettings;
+  const user = resolveSecret(smtp.user);
+  const transport = nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure ?? false,
+    auth: user ? { user, pass: resolveSecret(smtp.pass) } : undefined,
+    connectionTimeout: SEND_TIMEOUT_MS,
+  });
+
+  const { summary } = change;
+  await transport.sendMail({
+    from: channel.from,
+    to: channel.to,
+    subject: `[status] ${describeChange(change)}`,
+    text: [
+      describeChange(change),
+      `At: ${change.at}`,
+      summary.message ?? "",
+      summary.detailUrl ? `Status page: ${summary.detailUrl}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n"),
+  });
+}
+
+function sendToChannel(
+  channel: ChannelConfig,
+  change: StatusChange
+): Promise<void> {
+  if (channel.type === "email") return sendEmail(channel, change);
+
+  const url = resolveSecret(channel.url);
+  if (!url) {
+    return Promise.reject(new Error(`${channel.url} is not set`));
+  }
+
+  switch (channel.type) {
+    case "slack":
+      return postJson(url, slackPayload(change));
+    case "teams":
+      return postJson(url, teamsPayload(change));
+    case "webhook":
+      return postJson(url, webhookPayload(change));
+  }
+}
+
+// ─────────────────────────────
+// DISPATCH
+// ─────────────────────────────
+
+let stateQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Compare each provider's status against what every channel last announced
+ * and send alerts for real changes.
+ *
+ * - "unknown" results are skipped: a failed fetch is not a vendor incident.
+ * - With excludeMaintenanceFromAlerts, providers inside a maintenance window
+ *   are skipped; a change that outlasts the window is sent afterwards.
+ * - Providers under an operator override or a covering acknowledgement are
+ *   skipped the same way.
+ * - A change is sent when either side is at or above the channel's
+ *   minSeverity (so recoveries are announced too).
+ * - Within a channel's cooldown the change is held back, not dropped: if the
+ *   provider flaps back in the meantime nothing is sent at all.
+ */
+export function notifyStatusChanges(
+  statuses: StatusSummary[],
+  now: Date = new Date()
+): Promise<void> {
+  const channels = getNotificationChannels();
+  if (!channels.length) return Promise.resolve();
+
+  const { excludeMaintenanceFromAlerts } = getProviderConfig().settings;
+
+  const run = stateQueue.then(async () => {
+    const state = await readJsonStore<NotifierState>(STATE_FILE, {});
+    const at = now.toISOString();
+
+    for (const channel of channels) {
+      const channelState = (state[channel.id] ??= {});
+      const minSeverity = statusSeverity(channel.minSeverity);
+      const cooldownMs = channel.cooldownMinutes * 60 * 1000;
+
+      for (const summary of statuses) {
+        if (summary.status === "unknown") continue;
+        if (excludeMaintenanceFromAlerts && summary.inMaintenance) continue;
+        if (summary.override || isAcknowledged(summary)) continue;
+        if (channel.providers && !channel.providers.includes(summary.id)) {
+          continue;
+        }
+
+        const last = channelState[summary.id];
+        if (!last) {
+          // First sighting: remember it, nothing to compare against yet
+          channelState[summary.id] = { status: summary.status };
+          continue;
+        }
+        if (last.status === summary.status) continue;
+
+        const relevant =
+          statusSeverity(summary.status) >= minSeverity ||
+          statusSeverity(last.status) >= minSeverity;
+        if (!relevant) {
+          channelState[summary.id] = { ...last, status: summary.status };
+          continue;
+        }
+
+        if (
+          last.notifiedAt &&
+          now.getTime() - Date.parse(last.notifiedAt) < cooldownMs
+        ) {
+          continue;
+        }
+
+        const change: StatusChange = {
+          id: summary.id,
+          name: summary.name,
+          from: last.status,
+          to: summary.status,
+          at,
+          summary,
+        };
+
+        try {
+          await sendToChannel(channel, change);
+          channelState[summary.id] = { status: summary.status, notifiedAt: at };
+        } catch (err) {
+          // Leave state untouched so the next poll retries
+          console.error(
+            `Notification via ${channel.id} failed for ${summary.name}`,
+            err
+          );
+        }
+      }
+    }
+
+    await writeJsonStore(STATE_FILE, state);
+  });
+
+  stateQueue = run.catch(() => undefined);
+  return run;
+}
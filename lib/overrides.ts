@@ -0,0 +1,327 @@
+// lib/overrides.ts
+// Operator annotations on providers: temporary status overrides,
+// acknowledgements and free-text notes. Stored in the data dir and applied
+// by the poller, so rollups, history and alerts all see them.
+import { isRecord } from "./configFile";
+import { readJsonStore, writeJsonStore } from "./dataStore";
+import { STATUS_ORDER, type StatusLevel } from "./statusLevels";
+import type { StatusSummary } from "./statusSources";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+export interface StatusOverride {
+  /** Level shown (and rolled up / alerted on) instead of the feed's */
+  status: StatusLevel;
+  reason?: string;
+  by: string;
+  at: string;
+  expiresAt: string;
+}
+
+/**
+ * "We know, we're on it": alerts stay quiet while the provider is no worse
+ * than `status`. Cleared automatically once the feed is operational again.
+ */
+export interface Acknowledgement {
+  /** Feed status when acknowledged */
+  status: StatusLevel;
+  incidentId?: string;
+  incidentTitle?: string;
+  by: string;
+  at: string;
+}
+
+export interface OperatorNote {
+  text: string;
+  by: string;
+  at: string;
+}
+
+export interface ProviderAnnotations {
+  override?: StatusOverride;
+  acknowledgement?: Acknowledgement;
+  note?: OperatorNote;
+}
+
+/**
+ * Admin request body. Each field is optional; `null` clears it.
+ */
+export interface AnnotationPatch {
+  override?: {
+    status: StatusLevel;
+    expiresInMinutes: number;
+    reason?: string;
+  } | null;
+  acknowledge?: { incidentId?: string } | null;
+  note?: string | null;
+}
+
+/**
+ * Thrown when a valid patch doesn't fit the provider's current state
+ * (e.g. acknowledging a provider that is operational).
+ */
+export class AnnotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnnotationError";
+  }
+}
+
+type AnnotationsFile = Record<string, ProviderAnnotations>;
+
+const ANNOTATIONS_FILE = "annotations.json";
+const MAX_OVERRIDE_MINUTES = 7 * 24 * 60;
+const MAX_TEXT_LENGTH = 1000;
+
+// Admin routes and the poller live in different Next bundles; share one
+// copy (and one write queue) like the poller state does.
+const STATE_KEY = Symbol.for("infra-status-dashboard.overrides");
+
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  data: null,
+  writeQueue: Promise.resolve(),
+}) as { data: AnnotationsFile | null; writeQueue: Promise<unknown> };
+
+// ─────────────────────────────
+// VALIDATION
+// ─────────────────────────────
+
+function optionalText(
+  value: unknown,
+  field: string,
+  issues: string[]
+): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || value.length > MAX_TEXT_LENGTH) {
+    issues.push(
+      `${field}: must be a string of at most ${MAX_TEXT_LENGTH} chars`
+    );
+    return undefined;
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Check an admin request body. Returns the patch, or every problem found.
+ */
+export function validateAnnotationPatch(body: unknown): {
+  patch: AnnotationPatch;
+  issues: string[];
+} {
+  const issues: string[] = [];
+  const patch: AnnotationPatch = {};
+
+  if (!isRecord(body)) {
+    return { patch, issues: ["body must be a JSON object"] };
+  }
+
+  if (body.override === null) {
+    patch.override = null;
+  } else if (body.override !== undefined) {
+    const raw = body.override;
+    if (!isRecord(raw)) {
+      issues.push("override: must be an object or null");
+    } else {
+      if (
+        !STATUS_ORDER.includes(raw.status as StatusLevel) ||
+        raw.status === "unknown"
+      ) {
+        issues.push(
+          `override.status: must be one of ${STATUS_ORDER.slice(1).join(", ")}`
+        );
+      }
+      const minutes = raw.expiresInMinutes;
+      if (
+        typeof minutes !== "number" ||
+        !Number.isInteger(minutes) ||
+        minutes < 1 ||
+        minutes > MAX_OVERRIDE_MINUTES
+      ) {
+        issues.push(
+          `override.expiresInMinutes: must be an integer from 1 to ${MAX_OVERRIDE_MINUTES}`
+        );
+      }
+      patch.override = {
+        status: raw.status as StatusLevel,
+        expiresInMinutes: minutes as number,
+        reason: optionalText(raw.reason, "override.reason", issues),
+      };
+    }
+  }
+
+  if (body.acknowledge === null) {
+    patch.acknowledge = null;
+  } else if (body.acknowledge !== undefined) {
+    const raw = body.acknowledge;
+    if (!isRecord(raw)) {
+      issues.push("acknowledge: must be an object or null");
+    } else if (
+      raw.incidentId !== undefined &&
+      typeof raw.incidentId !== "string"
+    ) {
+      issues.push("acknowledge.incidentId: must be a string");
+    } else {
+      patch.acknowledge = { incidentId: raw.incidentId as string | undefined };
+    }
+  }
+
+  if (body.note === null) {
+    patch.note = null;
+  } else if (body.note !== undefined) {
+    const text = optionalText(body.note, "note", issues);
+    if (text) patch.note = text;
+    else if (!issues.length) issues.push("note: must not be empty");
+  }
+
+  if (
+    patch.override === undefined &&
+    patch.acknowledge === undefined &&
+    patch.note === undefined &&
+    !issues.length
+  ) {
+    issues.push("nothing to change: send override, acknowledge or note");
+  }
+
+  return { patch, issues };
+}
+
+// ─────────────────────────────
+// STORE
+// ─────────────────────────────
+
+async function loadAnnotations(): Promise<AnnotationsFile> {
+  state.data ??= await readJsonStore<AnnotationsFile>(ANNOTATIONS_FILE, {});
+  return state.data;
+}
+
+/**
+ * Read-modify-write one provider's annotations, serialised with every
+ * other write. Empty entries are removed from the file.
+ */
+function modifyAnnotations(
+  id: string,
+  change: (current: ProviderAnnotations) => ProviderAnnotations
+): Promise<ProviderAnnotations> {
+  const run = state.writeQueue.then(async () => {
+    const data = await loadAnnotations();
+    const next = change({ ...data[id] });
+    if (next.override || next.acknowledgement || next.note) data[id] = next;
+    else delete data[id];
+
+    await writeJsonStore(ANNOTATIONS_FILE, data);
+    return next;
+  });
+
+  state.writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Apply an admin patch on behalf of `by`. `feed` is the provider's current
+ * summary as the feed reports it (acknowledgements snapshot its status).
+ * Throws AnnotationError when the patch doesn't fit the provider's state.
+ */
+export async function updateAnnotations(
+  id: string,
+  patch: AnnotationPatch,
+  feed: StatusSummary,
+  by: string,
+  now: Date = new Date()
+): Promise<ProviderAnnotations> {
+  const at = now.toISOString();
+
+  let acknowledgement: Acknowledgement | undefined;
+  if (patch.acknowledge) {
+    if (feed.status === "operational") {
+      throw new AnnotationError(
+        "provider is operational; nothing to acknowledge"
+      );
+    }
+    const { incidentId } = patch.acknowledge;
+    const incident = incidentId
+      ? feed.incidents?.find(
+          (i) => i.id === incidentId && i.phase !== "resolved"
+        )
+      : undefined;
+    if (incidentId && !incident) {
+      throw new AnnotationError(`no open incident "${incidentId}"`);
+    }
+    acknowledgement = {
+      status: feed.status,
+      incidentId,
+      incidentTitle: incident?.title,
+      by,
+      at,
+    };
+  }
+
+  return modifyAnnotations(id, (current) => {
+    if (patch.override === null) delete current.override;
+    else if (patch.override) {
+      const { status, expiresInMinutes, reason } = patch.override;
+      current.override = {
+        status,
+        reason,
+        by,
+        at,
+        expiresAt: new Date(
+          now.getTime() + expiresInMinutes * 60 * 1000
+        ).toISOString(),
+      };
+    }
+
+    if (patch.acknowledge === null) delete current.acknowledgement;
+    else if (acknowledgement) current.acknowledgement = acknowledgement;
+
+    if (patch.note === null) delete current.note;
+    else if (patch.note) current.note = { text: patch.note, by, at };
+
+    return current;
+  });
+}
+
+// ─────────────────────────────
+// APPLYING
+// ─────────────────────────────
+
+/**
+ * What readers see for a provider: the feed's summary with its annotations
+ * attached and an active override's level in place of the feed's.
+ *
+ * Expired overrides and acknowledgements whose provider has recovered are
+ * removed from the store on the way.
+ */
+export async function annotateSummary(
+  feed: StatusSummary,
+  now: Date = new Date()
+): Promise<StatusSummary> {
+  const annotations = (await loadAnnotations())[feed.id];
+  if (!annotations) return feed;
+
+  const expired =
+    annotations.override &&
+    Date.parse(annotations.override.expiresAt) <= now.getTime();
+  const recovered =
+    annotations.acknowledgement && feed.status === "operational";
+
+  const current =
+    expired || recovered
+      ? await modifyAnnotations(feed.id, (a) => {
+          if (expired) delete a.override;
+          if (recovered) delete a.acknowledgement;
+          return a;
+        })
+      : annotations;
+
+  const { override, acknowledgement, note } = current;
+  return {
+    ...feed,
+    status: override?.status ?? feed.status,
+    feedStatus: override ? feed.status : undefined,
+    override,
+    acknowledgement,
+    note,
+  };
+}
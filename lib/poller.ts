@@ -0,0 +1,284 @@
+// lib/poller.ts
+// Background polling: every provider runs on its own timer with a request
+// timeout and retries. Pages and APIs read the cache instead of fetching.
+import { recordIncidents } from "./incidentLog";
+import { notifyStatusChanges } from "./notifier";
+import { annotateSummary } from "./overrides";
+import {
+  getProviderConfig,
+  resolvePollSettings,
+  type PollSettings,
+  type ProviderConfig,
+} from "./providerConfig";
+import { recordStatuses } from "./statusHistory";
+import { getProviderStatus, type StatusSummary } from "./statusSources";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+export interface StatusSnapshot {
+  /** ISO time of the most recent poll result */
+  at: string;
+  statuses: StatusSummary[];
+}
+
+type Listener = (summary: StatusSummary) => void;
+
+interface CacheEntry {
+  /** What readers get: `feed` with operator annotations applied */
+  summary: StatusSummary;
+  /** What the feed (or the last good result) says */
+  feed: StatusSummary;
+  /** Latest successful result, served while failures are short-lived */
+  lastGood?: StatusSummary;
+}
+
+interface PollerState {
+  started: Promise<void> | null;
+  cache: Map<string, CacheEntry>;
+  listeners: Set<Listener>;
+  updatedAt: string;
+}
+
+// Retry backoff: 1s, 2s, 4s, ... capped, with jitter so providers that
+// fail together don't retry in lockstep.
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 15 * 1000;
+
+// Next bundles instrumentation and route handlers separately, so plain
+// module state would give each bundle its own poller.
+const STATE_KEY = Symbol.for("infra-status-dashboard.poller");
+
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  started: null,
+  cache: new Map(),
+  listeners: new Set(),
+  updatedAt: new Date().toISOString(),
+}) as PollerState;
+
+// ─────────────────────────────
+// FETCHING
+// ─────────────────────────────
+
+/**
+ * Worth another attempt: timeouts, network/DNS errors, 429 and 5xx.
+ * A response we can't parse will most likely not parse next time either.
+ */
+function isRetryable(summary: StatusSummary): boolean {
+  const { error } = summary;
+  if (!error) return false;
+  if (error.kind === "http") {
+    return error.httpStatus === 429 || (error.httpStatus ?? 0) >= 500;
+  }
+  return error.kind !== "parse";
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchWithRetries(
+  provider: ProviderConfig,
+  poll: PollSettings
+): Promise<StatusSummary> {
+  let summary = await getProviderStatus(
+    provider,
+    AbortSignal.timeout(poll.timeoutMs)
+  );
+
+  for (let attempt = 1; attempt <= poll.retries; attempt++) {
+    if (!isRetryable(summary)) break;
+    const delay = Math.min(
+      RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+      RETRY_MAX_DELAY_MS
+    );
+    await sleep(delay * (0.5 + Math.random() / 2));
+    summary = await getProviderStatus(
+      provider,
+      AbortSignal.timeout(poll.timeoutMs)
+    );
+  }
+
+  return summary;
+}
+
+// ─────────────────────────────
+// CACHE
+// ─────────────────────────────
+
+/**
+ * Store a poll result and return what readers should now see.
+ *
+ * A failed poll keeps serving the last good result (with `error` attached)
+ * until the provider has been silent for `staleAfterIntervals` intervals;
+ * after that the "unknown" result is served, flagged `stale`.
+ */
+function updateCache(
+  id: string,
+  result: StatusSummary,
+  poll: PollSettings,
+  now: Date
+): StatusSummary {
+  const previous = state.cache.get(id);
+
+  if (!result.error) {
+    const summary = { ...result, fetchedAt: now.toISOString() };
+    state.cache.set(id, { summary, feed: summary, lastGood: summary });
+    return summary;
+  }
+
+  const lastGood = previous?.lastGood;
+  const staleAfterMs = poll.intervalSeconds * 1000 * poll.staleAfterIntervals;
+  const silentMs = lastGood?.fetchedAt
+    ? now.getTime() - Date.parse(lastGood.fetchedAt)
+    : Infinity;
+
+  const summary: StatusSummary =
+    lastGood && silentMs < staleAfterMs
+      ? { ...lastGood, error: result.error }
+      : {
+          ...result,
+          fetchedAt: lastGood?.fetchedAt,
+          stale: lastGood ? true : undefined,
+        };
+
+  state.cache.set(id, { summary, feed: summary, lastGood });
+  return summary;
+}
+
+/**
+ * Attach operator annotations (lib/overrides.ts) to the cached feed result.
+ */
+async function applyAnnotations(
+  id: string,
+  now: Date
+): Promise<StatusSummary | undefined> {
+  const entry = state.cache.get(id);
+  if (!entry) return undefined;
+  entry.summary = await annotateSummary(entry.feed, now);
+  return entry.summary;
+}
+
+// ─────────────────────────────
+// POLLING
+// ─────────────────────────────
+
+async function pollProvider(provider: ProviderConfig): Promise<void> {
+  const poll = resolvePollSettings(provider);
+  const result = await fetchWithRetries(provider, poll);
+  const now = new Date();
+  const feed = updateCache(provider.id, result, poll, now);
+  const annotated = await applyAnnotations(provider.id, now).catch((err) => {
+    console.error("Applying operator annotations failed", err);
+    return undefined;
+  });
+  const summary = annotated ?? feed;
+  state.updatedAt = now.toISOString();
+
+  try {
+    await recordStatuses([summary], now);
+  } catch (err) {
+    // History is best-effort (e.g. read-only filesystem)
+    console.error("Recording status history failed", err);
+  }
+
+  try {
+    await recordIncidents(summary, now);
+  } catch (err) {
+    console.error("Recording incident log failed", err);
+  }
+
+  try {
+    await notifyStatusChanges([summary], now);
+  } catch (err) {
+    console.error("Sending status notifications failed", err);
+  }
+
+  for (const listener of state.listeners) listener(summary);
+}
+
+/**
+ * Poll again one interval after the previous poll finished, so a slow
+ * provider never has two polls in flight.
+ */
+function scheduleNext(provider: ProviderConfig): void {
+  const { intervalSeconds } = resolvePollSettings(provider);
+  const timer = setTimeout(async () => {
+    await pollProvider(provider).catch((err) =>
+      console.error(`Polling ${provider.name} failed`, err)
+    );
+    scheduleNext(provider);
+  }, intervalSeconds * 1000);
+  // Don't hold the process open just for the poller
+  timer.unref?.();
+}
+
+/**
+ * Start polling every configured provider (once per process). Resolves when
+ * the first round is done, i.e. once every provider has a cached result.
+ */
+export function startPoller(): Promise<void> {
+  state.started ??= Promise.all(
+    getProviderConfig().providers.map(async (provider) => {
+      await pollProvider(provider).catch((err) =>
+        console.error(`Polling ${provider.name} failed`, err)
+      );
+      scheduleNext(provider);
+    })
+  ).then(() => undefined);
+  return state.started;
+}
+
+// ─────────────────────────────
+// READING
+// ─────────────────────────────
+
+/**
+ * Cached status of every provider, in config order.
+ */
+export async function getAllStatuses(): Promise<StatusSummary[]> {
+  await startPoller();
+  return getProviderConfig().providers.flatMap((provider) => {
+    const entry = state.cache.get(provider.id);
+    return entry ? [entry.summary] : [];
+  });
+}
+
+export async function getCachedStatus(
+  id: string
+): Promise<StatusSummary | undefined> {
+  await startPoller();
+  return state.cache.get(id)?.summary;
+}
+
+export async function getStatusSnapshot(): Promise<StatusSnapshot> {
+  const statuses = await getAllStatuses();
+  return { at: state.updatedAt, statuses };
+}
+
+/**
+ * Re-apply operator annotations to a provider's cached summary right after
+ * an admin change, without waiting for its next poll.
+ */
+export async function refreshAnnotations(
+  id: string
+): Promise<StatusSummary | undefined> {
+  await startPoller();
+  const summary = await applyAnnotations(id, new Date());
+  if (summary) {
+    for (const listener of state.listeners) listener(summary);
+  }
+  return summary;
+}
+
+/**
+ * Called with each provider's summary after every poll.
+ * Returns the unsubscribe function.
+ */
+export function subscribePoller(listener: Listener): () => void {
+  state.listeners.add(listener);
+  return () => {
+    state.listeners.delete(listener);
+  };
+}
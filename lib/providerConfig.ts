@@ -0,0 +1,587 @@
+// lib/providerConfig.ts
+import {
+  ConfigError,
+  isHttpUrl,
+  isRecord,
+  readJsonConfigFile,
+} from "./configFile";
+import type { AwsHealthFilter } from "./awsHealth";
+import {
+  HTTP_CHECK_METHODS,
+  parseJsonPath,
+  type HttpCheckConfig,
+} from "./httpCheck";
+import type { RssRules } from "./rssIncidents";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+export const ADAPTER_KINDS = [
+  "statuspage-summary",
+  "statuspage-status",
+  "rss",
+  "http-ping",
+  "aws-health",
+  "http-check",
+  "incident-io",
+  "instatus",
+  "better-stack",
+  "status-io",
+  "google-cloud",
+  "azure",
+] as const;
+
+export type AdapterKind = (typeof ADAPTER_KINDS)[number];
+
+// Kinds whose feed lists components, so `components` can pin some of them
+export const COMPONENT_KINDS: AdapterKind[] = [
+  "statuspage-summary",
+  "incident-io",
+  "instatus",
+  "better-stack",
+  "status-io",
+  "google-cloud",
+];
+
+export interface ProviderGroup {
+  id: string;
+  name: string;
+  /**
+   * false: the group counts at most as "degraded" towards the overall
+   * status. Defaults to true.
+   */
+  critical: boolean;
+}
+
+export interface PollSettings {
+  /** Seconds between polls of one provider */
+  intervalSeconds: number;
+  /** Per-request timeout */
+  timeoutMs: number;
+  /** Extra attempts after a timeout, network error or 5xx */
+  retries: number;
+  /** Cached data turns stale after this many intervals without an answer */
+  staleAfterIntervals: number;
+}
+
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  kind: AdapterKind;
+  /** Feed / API / endpoint URL the adapter fetches. */
+  url: string;
+  /** Human-facing status page (defaults to `url`). */
+  detailUrl?: string;
+  /** Id of a group in `groups`. */
+  group: string;
+  /**
+   * false: the provider counts at most as "degraded" towards its group.
+   * Defaults to true.
+   */
+  critical: boolean;
+  /** Free-form labels (owning team, domain, ...) for dashboard filters */
+  tags?: string[];
+  /**
+   * Component names or ids we depend on (kinds in COMPONENT_KINDS). When set,
+   * only these components (and incidents touching them) drive the status.
+   */
+  components?: string[];
+  /** rss only: overrides for incident phase / impact keyword rules */
+  rss?: Partial<RssRules>;
+  /** aws-health only: regions / services to watch (all when omitted) */
+  aws?: AwsHealthFilter;
+  /** http-check only: request, expectations and latency thresholds */
+  check?: HttpCheckConfig;
+  /** Overrides for settings.poll */
+  poll?: Partial<PollSettings>;
+}
+
+export interface DashboardSettings {
+  /** Don't alert on changes while a provider is in a maintenance window */
+  excludeMaintenanceFromAlerts: boolean;
+  /** Leave maintenance windows out of availability percentages */
+  excludeMaintenanceFromUptime: boolean;
+  /** Poller defaults; providers can override them one by one */
+  poll: PollSettings;
+}
+
+export interface ProvidersFile {
+  settings: DashboardSettings;
+  groups: ProviderGroup[];
+  providers: ProviderConfig[];
+}
+
+const DEFAULT_POLL_SETTINGS: PollSettings = {
+  intervalSeconds: 60,
+  timeoutMs: 10 * 1000,
+  retries: 2,
+  staleAfterIntervals: 3,
+};
+
+const DEFAULT_SETTINGS: DashboardSettings = {
+  excludeMaintenanceFromAlerts: true,
+  excludeMaintenanceFromUptime: true,
+  poll: DEFAULT_POLL_SETTINGS,
+};
+
+// Override with PROVIDERS_CONFIG_PATH (absolute, or relative to project root)
+const DEFAULT_CONFIG_PATH = "config/providers.json";
+
+// ─────────────────────────────
+// VALIDATION
+// ─────────────────────────────
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * The two Statuspage kinds read different endpoints; a summary.json URL
+ * under "statuspage-status" silently loses incidents, components and
+ * maintenance, so reject the mix-up.
+ */
+function statuspageUrlMismatch(kind: unknown, url: string): string | null {
+  const path = new URL(url).pathname;
+  if (kind === "statuspage-status" && path.endsWith("/summary.json")) {
+    return 'summary.json needs kind "statuspage-summary"';
+  }
+  if (kind === "statuspage-summary" && path.endsWith("/status.json")) {
+    return "status.json has no incidents or components; use the page's /api/v2/summary.json";
+  }
+  return null;
+}
+
+/**
+ * Validate the parsed providers file. Collects every problem instead of
+ * stopping at the first one, so a bad edit is fixed in one round trip.
+ */
+export function validateProvidersFile(
+  data: unknown,
+  file: string
+): ProvidersFile {
+  const issues: string[] = [];
+
+  if (!isRecord(data)) {
+    throw new ConfigError(file, ["top level must be an object"]);
+  }
+
+  const settings: DashboardSettings = { ...DEFAULT_SETTINGS };
+  if (data.settings !== undefined) {
+    if (!isRecord(data.settings)) {
+      issues.push("settings: must be an object");
+    } else {
+      for (const [key, value] of Object.entries(data.settings)) {
+        if (!(key in DEFAULT_SETTINGS)) {
+          issues.push(`settings.${key}: unknown setting`);
+        } else if (key === "poll") {
+          const pollIssues = validatePollSettings(value, "settings.poll");
+          issues.push(...pollIssues);
+          if (!pollIssues.length) {
+            settings.poll = { ...DEFAULT_POLL_SETTINGS, ...(value as object) };
+          }
+        } else if (typeof value !== "boolean") {
+          issues.push(`settings.${key}: must be true or false`);
+        } else {
+          settings[key as Exclude<keyof DashboardSettings, "poll">] = value;
+        }
+      }
+    }
+  }
+
+  const groups: ProviderGroup[] = [];
+  if (!Array.isArray(data.groups) || data.groups.length === 0) {
+    issues.push("groups: must be a non-empty array");
+  } else {
+    data.groups.forEach((raw, i) => {
+      const at = `groups[${i}]`;
+      if (!isRecord(raw)) {
+        issues.push(`${at}: must be an object`);
+        return;
+      }
+      if (typeof raw.id !== "string" || !ID_PATTERN.test(raw.id)) {
+        issues.push(`${at}.id: must be a lowercase slug (a-z, 0-9, -)`);
+      } else if (groups.some((g) => g.id === raw.id)) {
+        issues.push(`${at}.id: duplicate group id "${raw.id}"`);
+      }
+      if (typeof raw.name !== "string" || !raw.name.trim()) {
+        issues.push(`${at}.name: must be a non-empty string`);
+      }
+      if (raw.critical !== undefined && typeof raw.critical !== "boolean") {
+        issues.push(`${at}.critical: must be true or false`);
+      }
+      groups.push({
+        id: String(raw.id),
+        name: String(raw.name),
+        critical: raw.critical !== false,
+      });
+    });
+  }
+
+  const providers: ProviderConfig[] = [];
+  if (!Array.isArray(data.providers) || data.providers.length === 0) {
+    issues.push("providers: must be a non-empty array");
+  } else {
+    data.providers.forEach((raw, i) => {
+      const at = `providers[${i}]`;
+      if (!isRecord(raw)) {
+        issues.push(`${at}: must be an object`);
+        return;
+      }
+      const label = typeof raw.id === "string" ? `${at} (${raw.id})` : at;
+
+      if (typeof raw.id !== "string" || !ID_PATTERN.test(raw.id)) {
+        issues.push(`${label}.id: must be a lowercase slug (a-z, 0-9, -)`);
+      } else if (providers.some((p) => p.id === raw.id)) {
+        issues.push(`${label}.id: duplicate provider id`);
+      }
+      if (typeof raw.name !== "string" || !raw.name.trim()) {
+        issues.push(`${label}.name: must be a non-empty string`);
+      }
+      if (!ADAPTER_KINDS.includes(raw.kind as AdapterKind)) {
+        issues.push(
+          `${label}.kind: must be one of ${ADAPTER_KINDS.join(", ")}` +
+            ` (got ${JSON.stringify(raw.kind)})`
+        );
+      }
+      if (!isHttpUrl(raw.url)) {
+        issues.push(`${label}.url: must be an absolute http(s) URL`);
+      } else {
+        const mismatch = statuspageUrlMismatch(raw.kind, raw.url);
+        if (mismatch) issues.push(`${label}.url: ${mismatch}`);
+      }
+      if (raw.detailUrl !== undefined && !isHttpUrl(raw.detailUrl)) {
+        issues.push(`${label}.detailUrl: must be an absolute http(s) URL`);
+      }
+      if (typeof raw.group !== "string") {
+        issues.push(`${label}.group: must be a group id`);
+      } else if (!groups.some((g) => g.id === raw.group)) {
+        issues.push(`${label}.group: unknown group "${raw.group}"`);
+      }
+      if (raw.critical !== undefined && typeof raw.critical !== "boolean") {
+        issues.push(`${label}.critical: must be true or false`);
+      }
+      if (
+        raw.tags !== undefined &&
+        (!Array.isArray(raw.tags) ||
+          raw.tags.some((t) => typeof t !== "string" || !ID_PATTERN.test(t)))
+      ) {
+        issues.push(
+          `${label}.tags: must be an array of lowercase slugs (a-z, 0-9, -)`
+        );
+      }
+
+      if (raw.components !== undefined) {
+        if (
+          !Array.isArray(raw.components) ||
+          !raw.components.length ||
+          raw.components.some((c) => typeof c !== "string")
+        ) {
+          issues.push(
+            `${label}.components: must be a non-empty array of component names or ids`
+          );
+        } else if (!COMPONENT_KINDS.includes(raw.kind as AdapterKind)) {
+          issues.push(
+            `${label}.components: only supported for kinds ${COMPONENT_KINDS.join(
+              ", "
+            )}`
+          );
+        }
+      }
+
+      if (raw.rss !== undefined) {
+        if (raw.kind !== "rss") {
+          issues.push(`${label}.rss: only supported for kind rss`);
+        }
+        issues.push(...validateRssRules(raw.rss, `${label}.rss`));
+      }
+
+      if (raw.aws !== undefined) {
+        if (raw.kind !== "aws-health") {
+          issues.push(`${label}.aws: only supported for kind aws-health`);
+        }
+        if (!isRecord(raw.aws)) {
+          issues.push(`${label}.aws: must be an object`);
+        } else {
+          for (const key of ["regions", "services"]) {
+            if (raw.aws[key] !== undefined && !isStringList(raw.aws[key])) {
+              issues.push(`${label}.aws.${key}: must be an array of strings`);
+            }
+          }
+        }
+      }
+
+      if (raw.check !== undefined) {
+        if (raw.kind !== "http-check") {
+          issues.push(`${label}.check: only supported for kind http-check`);
+        }
+        issues.push(...validateHttpCheck(raw.check, `${label}.check`));
+      }
+
+      if (raw.poll !== undefined) {
+        issues.push(...validatePollSettings(raw.poll, `${label}.poll`));
+      }
+
+      providers.push({
+        id: raw.id as string,
+        name: raw.name as string,
+        kind: raw.kind as AdapterKind,
+        url: raw.url as string,
+        detailUrl: raw.detailUrl as string | undefined,
+        group: raw.group as string,
+        critical: raw.critical !== false,
+        tags: raw.tags as string[] | undefined,
+        components: raw.components as string[] | undefined,
+        rss: raw.rss as Partial<RssRules> | undefined,
+        aws: raw.aws as AwsHealthFilter | undefined,
+        check: raw.check as HttpCheckConfig | undefined,
+        poll: raw.poll as Partial<PollSettings> | undefined,
+      });
+    });
+  }
+
+  if (issues.length) throw new ConfigError(file, issues);
+
+  return { settings, groups, providers };
+}
+
+// [min, max] per poll setting. Intervals stay under the 30-minute gap after
+// which status history stops treating consecutive polls as one segment.
+const POLL_LIMITS: Record<keyof PollSettings, [number, number]> = {
+  intervalSeconds: [10, 1800],
+  timeoutMs: [500, 120 * 1000],
+  retries: [0, 5],
+  staleAfterIntervals: [1, 100],
+};
+
+function validatePollSettings(raw: unknown, at: string): string[] {
+  if (!isRecord(raw)) return [`${at}: must be an object`];
+
+  const issues: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    const limits = POLL_LIMITS[key as keyof PollSettings];
+    if (!limits) {
+      issues.push(
+        `${at}.${key}: unknown setting (use ${Object.keys(POLL_LIMITS).join(
+          ", "
+        )})`
+      );
+    } else if (
+      !Number.isInteger(value) ||
+      (value as number) < limits[0] ||
+      (value as number) > limits[1]
+    ) {
+      issues.push(
+        `${at}.${key}: must be an integer from ${limits[0]} to ${limits[1]}`
+      );
+    }
+  }
+  return issues;
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function validateHttpCheck(raw: unknown, at: string): string[] {
+  if (!isRecord(raw)) return [`${at}: must be an object`];
+
+  const issues: string[] = [];
+  if (
+    raw.method !== undefined &&
+    !HTTP_CHECK_METHODS.includes(
+      raw.method as (typeof HTTP_CHECK_METHODS)[number]
+    )
+  ) {
+    issues.push(
+      `${at}.method: must be one of ${HTTP_CHECK_METHODS.join(", ")}`
+    );
+  }
+  if (
+    raw.headers !== undefined &&
+    (!isRecord(raw.headers) ||
+      Object.values(raw.headers).some((v) => typeof v !== "string"))
+  ) {
+    issues.push(`${at}.headers: must be an object of strings`);
+  }
+  if (raw.body !== undefined && typeof raw.body !== "string") {
+    issues.push(`${at}.body: must be a string`);
+  } else if (
+    raw.body !== undefined &&
+    (raw.method === undefined || raw.method === "GET" || raw.method === "HEAD")
+  ) {
+    // fetch throws on a GET/HEAD request with a body
+    issues.push(`${at}.body: needs a method other than GET or HEAD`);
+  }
+  if (
+    raw.expectedStatus !== undefined &&
+    (!Array.isArray(raw.expectedStatus) ||
+      !raw.expectedStatus.length ||
+      raw.expectedStatus.some(
+        (code) => !Number.isInteger(code) || code < 100 || code > 599
+      ))
+  ) {
+    issues.push(
+      `${at}.expectedStatus: must be a non-empty array of HTTP codes`
+    );
+  }
+
+  if (raw.assertions !== undefined) {
+    if (!Array.isArray(raw.assertions)) {
+      issues.push(`${at}.assertions: must be an array`);
+    } else {
+      raw.assertions.forEach((assertion, i) => {
+        const aAt = `${at}.assertions[${i}]`;
+        if (!isRecord(assertion)) {
+          issues.push(`${aAt}: must be { jsonPath, equals? } or { regex }`);
+          return;
+        }
+        if (
+          assertion.level !== undefined &&
+          !RSS_LEVELS.includes(assertion.level as string)
+        ) {
+          issues.push(`${aAt}.level: must be one of ${RSS_LEVELS.join(", ")}`);
+        }
+        if (typeof assertion.jsonPath === "string") {
+          if (!parseJsonPath(assertion.jsonPath)) {
+            issues.push(
+              `${aAt}.jsonPath: use the $.key.nested[0]["other key"] syntax`
+            );
+          }
+        } else if (typeof assertion.regex === "string") {
+          try {
+            new RegExp(assertion.regex, assertion.flags as string | undefined);
+          } catch (err) {
+            issues.push(`${aAt}.regex: ${(err as Error).message}`);
+          }
+        } else {
+          issues.push(`${aAt}: must have a jsonPath or a regex`);
+        }
+      });
+    }
+  }
+
+  if (raw.latency !== undefined) {
+    if (!isRecord(raw.latency)) {
+      issues.push(`${at}.latency: must be { degradedMs?, majorOutageMs? }`);
+    } else {
+      const { degradedMs, majorOutageMs } = raw.latency;
+      for (const [key, value] of Object.entries({
+        degradedMs,
+        majorOutageMs,
+      })) {
+        if (value !== undefined && !isPositiveInteger(value)) {
+          issues.push(`${at}.latency.${key}: must be a positive integer (ms)`);
+        }
+      }
+      if (
+        isPositiveInteger(degradedMs) &&
+        isPositiveInteger(majorOutageMs) &&
+        (degradedMs as number) >= (majorOutageMs as number)
+      ) {
+        issues.push(`${at}.latency: degradedMs must be below majorOutageMs`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+const RSS_PHASES = ["investigating", "identified", "monitoring", "resolved"];
+const RSS_LEVELS = ["degraded", "partial_outage", "major_outage"];
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function validateRssRules(raw: unknown, at: string): string[] {
+  const issues: string[] = [];
+  if (!isRecord(raw)) return [`${at}: must be an object`];
+
+  if (raw.phases !== undefined) {
+    if (!isRecord(raw.phases)) {
+      issues.push(`${at}.phases: must be an object`);
+    } else {
+      for (const [phase, keywords] of Object.entries(raw.phases)) {
+        if (!RSS_PHASES.includes(phase)) {
+          issues.push(
+            `${at}.phases.${phase}: unknown phase (use ${RSS_PHASES.join(
+              ", "
+            )})`
+          );
+        } else if (!isStringList(keywords)) {
+          issues.push(`${at}.phases.${phase}: must be an array of keywords`);
+        }
+      }
+    }
+  }
+
+  if (raw.levels !== undefined) {
+    if (!Array.isArray(raw.levels)) {
+      issues.push(`${at}.levels: must be an array of { level, match }`);
+    } else {
+      raw.levels.forEach((rule, i) => {
+        if (
+          !isRecord(rule) ||
+          !RSS_LEVELS.includes(rule.level as string) ||
+          !isStringList(rule.match)
+        ) {
+          issues.push(
+            `${at}.levels[${i}]: must be { level: ${RSS_LEVELS.join(
+              " | "
+            )}, match: string[] }`
+          );
+        }
+      });
+    }
+  }
+
+  if (
+    raw.defaultLevel !== undefined &&
+    !RSS_LEVELS.includes(raw.defaultLevel as string)
+  ) {
+    issues.push(`${at}.defaultLevel: must be one of ${RSS_LEVELS.join(", ")}`);
+  }
+  for (const key of ["maintenance", "maintenanceInProgress"]) {
+    if (raw[key] !== undefined && !isStringList(raw[key])) {
+      issues.push(`${at}.${key}: must be an array of keywords`);
+    }
+  }
+  if (
+    raw.activeWindowHours !== undefined &&
+    (typeof raw.activeWindowHours !== "number" || raw.activeWindowHours <= 0)
+  ) {
+    issues.push(`${at}.activeWindowHours: must be a positive number`);
+  }
+
+  return issues;
+}
+
+// ─────────────────────────────
+// LOADING
+// ─────────────────────────────
+
+let cached: ProvidersFile | null = null;
+
+/**
+ * Load + validate the provider registry once per server process.
+ * Throws ConfigError (with every issue listed) on a bad file.
+ */
+export function getProviderConfig(): ProvidersFile {
+  if (!cached) {
+    const { path, data } = readJsonConfigFile(
+      process.env.PROVIDERS_CONFIG_PATH || DEFAULT_CONFIG_PATH
+    );
+    cached = validateProvidersFile(data, path);
+  }
+  return cached;
+}
+
+export function getProvider(id: string): ProviderConfig | undefined {
+  return getProviderConfig().providers.find((p) => p.id === id);
+}
+
+/**
+ * Poll settings for one provider: its overrides over settings.poll.
+ */
+export function resolvePollSettings(provider: ProviderConfig): PollSettings {
+  return { ...getProviderConfig().settings.poll, ...provider.poll };
+}
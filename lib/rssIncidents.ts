@@ -0,0 +1,258 @@
+// lib/rssIncidents.ts
+// Turns a flat list of RSS/Atom items into incidents with a lifecycle phase,
+// and splits planned maintenance out of them.
+import type { FeedItem } from "./feedParser";
+import { maxStatus, type StatusLevel } from "./statusLevels";
+import type {
+  IncidentPhase,
+  StatusIncident,
+  StatusMaintenance,
+} from "./statusSources";
+
+// ─────────────────────────────
+// RULES
+// ─────────────────────────────
+
+export interface RssLevelRule {
+  level: Exclude<StatusLevel, "unknown" | "operational">;
+  /** Lowercase substrings; any match applies the rule */
+  match: string[];
+}
+
+export interface RssRules {
+  /** Checked in order resolved → monitoring → identified → investigating */
+  phases: Record<IncidentPhase, string[]>;
+  /** Evaluated top to bottom; the first matching rule sets the impact */
+  levels: RssLevelRule[];
+  /** Impact of an open incident when no level rule matches */
+  defaultLevel: RssLevelRule["level"];
+  /** Open incidents with no update for this long are considered stale */
+  activeWindowHours: number;
+  /** Items matching these are planned maintenance, not incidents */
+  maintenance: string[];
+  /** ...and are in progress (rather than upcoming) when these match */
+  maintenanceInProgress: string[];
+}
+
+export const INCIDENT_PHASES: IncidentPhase[] = [
+  "resolved",
+  "monitoring",
+  "identified",
+  "investigating",
+];
+
+export const DEFAULT_RSS_RULES: RssRules = {
+  phases: {
+    resolved: [
+      "resolved",
+      "completed",
+      "has been fixed",
+      "no longer affected",
+      "no longer experiencing",
+    ],
+    monitoring: ["monitoring"],
+    identified: [
+      "identified",
+      "fix is being implemented",
+      "implementing a fix",
+    ],
+    investigating: ["investigating"],
+  },
+  levels: [
+    // Explicit "red" signals win over anything partial
+    { level: "major_outage", match: ["major outage", "critical"] },
+    // Partial signals before the generic "outage" words
+    {
+      level: "partial_outage",
+      match: [
+        "partial outage",
+        "partial service",
+        "partial disruption",
+        "partially",
+      ],
+    },
+    {
+      level: "major_outage",
+      match: ["unavailable", "service disruption", "downtime", "outage"],
+    },
+    {
+      level: "degraded",
+      match: [
+        "partial",
+        "degraded",
+        "degradation",
+        "elevated error",
+        "latency",
+      ],
+    },
+  ],
+  defaultLevel: "degraded",
+  activeWindowHours: 24,
+  maintenance: ["maintenance", "planned work"],
+  maintenanceInProgress: ["in progress", "underway", "has begun", "started"],
+};
+
+// Announcements of upcoming maintenance are kept this long after posting
+const SCHEDULED_MAINTENANCE_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Merge per-provider overrides over the defaults. Phase lists replace the
+ * default list for that phase; `levels` replaces the whole rule list.
+ */
+export function resolveRssRules(overrides?: Partial<RssRules>): RssRules {
+  return {
+    ...DEFAULT_RSS_RULES,
+    ...overrides,
+    phases: { ...DEFAULT_RSS_RULES.phases, ...overrides?.phases },
+  };
+}
+
+// ─────────────────────────────
+// CLASSIFICATION
+// ─────────────────────────────
+
+export function detectPhase(text: string, rules: RssRules): IncidentPhase {
+  const lower = text.toLowerCase();
+  return (
+    INCIDENT_PHASES.find((phase) =>
+      rules.phases[phase].some((keyword) => lower.includes(keyword))
+    ) ?? "investigating"
+  );
+}
+
+export function detectLevel(
+  text: string,
+  rules: RssRules
+): RssLevelRule["level"] {
+  const lower = text.toLowerCase();
+  return (
+    rules.levels.find((rule) =>
+      rule.match.some((keyword) => lower.includes(keyword))
+    )?.level ?? rules.defaultLevel
+  );
+}
+
+// "Resolved: API errors", "[Monitoring] API errors", "Update - API errors",
+// "Active - API errors" (Azure)
+const PHASE_PREFIX =
+  /^\s*(?:\[[^\]]*\]|(?:resolved|investigating|identified|monitoring|update|updated|completed|scheduled|in progress|active)\s*[:\-–—|])\s*/i;
+
+/**
+ * Incident title without the phase prefix most vendors put on each update.
+ */
+export function normalizeIncidentTitle(title: string): string {
+  let current = title;
+  let next = current.replace(PHASE_PREFIX, "");
+  while (next !== current) {
+    current = next;
+    next = current.replace(PHASE_PREFIX, "");
+  }
+  return current.trim();
+}
+
+// ─────────────────────────────
+// GROUPING
+// ─────────────────────────────
+
+function matchesAny(text: string, keywords: string[]): boolean {
+  const lower = text.toLowerCase();
+  return keywords.some((keyword) => lower.includes(keyword));
+}
+
+/**
+ * Group feed items (newest first): items sharing a link or a normalized title
+ * belong to the same incident. Each incident takes its phase from its newest
+ * item and its impact from the worst of its items.
+ *
+ * Open incidents without an update inside `activeWindowHours` are marked
+ * stale and reported as resolved, since many feeds never post a closing item.
+ *
+ * Groups matching the `maintenance` keywords come back as maintenances
+ * instead (finished ones dropped) and never carry an impact.
+ */
+export function groupFeedItems(
+  items: FeedItem[],
+  rules: RssRules,
+  now: number = Date.now()
+): { incidents: StatusIncident[]; maintenances: StatusMaintenance[] } {
+  const byKey = new Map<string, FeedItem[]>();
+  // link or lowercase normalized title → incident key
+  const index = new Map<string, string>();
+
+  for (const item of items) {
+    const title = normalizeIncidentTitle(item.title).toLowerCase();
+    const key =
+      (item.link && index.get(item.link)) ||
+      (title && index.get(title)) ||
+      item.link ||
+      title ||
+      item.id;
+
+    if (item.link) index.set(item.link, key);
+    if (title) index.set(title, key);
+
+    const group = byKey.get(key);
+    if (group) group.push(item);
+    else byKey.set(key, [item]);
+  }
+
+  const cutoff = now - rules.activeWindowHours * 60 * 60 * 1000;
+  const incidents: StatusIncident[] = [];
+  const maintenances: StatusMaintenance[] = [];
+
+  for (const [key, group] of byKey) {
+    const newest = group[0];
+    const oldest = group[group.length - 1];
+    const newestText = `${newest.title} ${newest.text}`;
+    const updatedAt = newest.date ? Date.parse(newest.date) : 0;
+    const title = normalizeIncidentTitle(newest.title) || newest.title;
+
+    let phase = detectPhase(newestText, rules);
+
+    if (group.some((item) => matchesAny(item.title, rules.maintenance))) {
+      if (phase === "resolved") continue;
+
+      const inProgress = matchesAny(newestText, rules.maintenanceInProgress);
+      const window = inProgress
+        ? cutoff
+        : now - SCHEDULED_MAINTENANCE_WINDOW_MS;
+      if (updatedAt < window) continue;
+
+      maintenances.push({
+        id: key,
+        title,
+        state: inProgress ? "in_progress" : "scheduled",
+        scheduledFor: inProgress ? oldest.date : undefined,
+        link: newest.link,
+      });
+      continue;
+    }
+
+    if (phase !== "resolved" && updatedAt < cutoff) phase = "resolved";
+
+    const impact = group.reduce<StatusLevel>(
+      (worst, item) =>
+        maxStatus(worst, detectLevel(`${item.title} ${item.text}`, rules)),
+      "operational"
+    );
+
+    incidents.push({
+      id: key,
+      title,
+      phase,
+      impact,
+      startedAt: oldest.date,
+      updatedAt: newest.date,
+      resolvedAt: phase === "resolved" ? newest.date : undefined,
+      link: newest.link,
+      // Each feed item is one post on the incident
+      updates: group.map((item) => ({
+        phase: detectPhase(`${item.title} ${item.text}`, rules),
+        body: item.text || item.title,
+        at: item.date,
+      })),
+    });
+  }
+
+  return { incidents, maintenances };
+}
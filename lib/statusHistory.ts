@@ -0,0 +1,200 @@
+// lib/statusHistory.ts
+import { readJsonStore, writeJsonStore } from "./dataStore";
+import { getProviderConfig } from "./providerConfig";
+import { maxStatus, type StatusLevel } from "./statusLevels";
+import type { StatusSummary } from "./statusSources";
+
+// ─────────────────────────────
+// TYPES
+// ─────────────────────────────
+
+/**
+ * A run of consecutive polls that all returned the same status.
+ * Polls only extend `end`, so the store grows with transitions, not polls.
+ */
+export interface HistorySegment {
+  status: StatusLevel;
+  start: string;
+  end: string;
+  /** Set when the provider was inside a maintenance window */
+  maintenance?: true;
+}
+
+export interface UptimeDay {
+  /** UTC day, YYYY-MM-DD */
+  date: string;
+  /** Worst status seen that day, or null when we have no data */
+  status: StatusLevel | null;
+}
+
+export interface UptimeHistory {
+  days: UptimeDay[];
+  /**
+   * Share of observed time not in partial/major outage (0–1), or null.
+   * Unreachable time (and optionally maintenance) is left out.
+   */
+  availability30d: number | null;
+  availability90d: number | null;
+}
+
+type HistoryFile = Record<string, HistorySegment[]>;
+
+const HISTORY_FILE = "status-history.json";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_DAYS = 90;
+
+// If polls stop for longer than this, the next poll starts a fresh segment
+// instead of claiming the gap had the same status.
+const MAX_POLL_GAP_MS = 30 * 60 * 1000;
+
+// ─────────────────────────────
+// STORE
+// ─────────────────────────────
+
+// Written by the poller, read by pages in other Next bundles; share one
+// copy like lib/incidentLog.ts does. The write queue serialises
+// read-modify-write cycles.
+const STATE_KEY = Symbol.for("infra-status-dashboard.statusHistory");
+
+const state = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??= {
+  data: null,
+  writeQueue: Promise.resolve(),
+}) as { data: HistoryFile | null; writeQueue: Promise<unknown> };
+
+async function loadHistory(): Promise<HistoryFile> {
+  state.data ??= await readJsonStore<HistoryFile>(HISTORY_FILE, {});
+  return state.data;
+}
+
+/**
+ * Record one poll result per provider.
+ */
+export function recordStatuses(
+  statuses: StatusSummary[],
+  now: Date = new Date()
+): Promise<void> {
+  const run = state.writeQueue.then(async () => {
+    const data = await loadHistory();
+    const at = now.toISOString();
+    const cutoff = now.getTime() - RETENTION_DAYS * DAY_MS;
+
+    for (const s of statuses) {
+      const segments = (data[s.id] ?? []).filter(
+        (seg) => Date.parse(seg.end) >= cutoff
+      );
+      const last = segments[segments.length - 1];
+      const contiguous =
+        last && now.getTime() - Date.parse(last.end) <= MAX_POLL_GAP_MS;
+      const maintenance = s.inMaintenance ? true : undefined;
+
+      if (
+        last &&
+        contiguous &&
+        last.status === s.status &&
+        last.maintenance === maintenance
+      ) {
+        last.end = at;
+      } else {
+        // Close the previous segment at this poll so durations don't gap.
+        if (last && contiguous) last.end = at;
+        segments.push({ status: s.status, start: at, end: at, maintenance });
+      }
+
+      data[s.id] = segments;
+    }
+
+    await writeJsonStore(HISTORY_FILE, data);
+  });
+
+  state.writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+// ─────────────────────────────
+// UPTIME
+// ─────────────────────────────
+
+function isDown(status: StatusLevel): boolean {
+  return status === "partial_outage" || status === "major_outage";
+}
+
+function availability(
+  segments: HistorySegment[],
+  from: number,
+  to: number,
+  excludeMaintenance: boolean
+): number | null {
+  let up = 0;
+  let down = 0;
+
+  for (const seg of segments) {
+    if (seg.status === "unknown") continue;
+    if (excludeMaintenance && seg.maintenance) continue;
+    const start = Math.max(Date.parse(seg.start), from);
+    const end = Math.min(Date.parse(seg.end), to);
+    if (end <= start) continue;
+
+    if (isDown(seg.status)) down += end - start;
+    else up += end - start;
+  }
+
+  return up + down > 0 ? up / (up + down) : null;
+}
+
+/**
+ * Per-day worst status for the last 90 days, plus 30/90-day availability,
+ * for each requested provider id.
+ */
+export async function getUptimeHistory(
+  ids: string[],
+  now: Date = new Date()
+): Promise<Record<string, UptimeHistory>> {
+  const data = await loadHistory();
+  const { excludeMaintenanceFromUptime } = getProviderConfig().settings;
+  const endOfToday = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() + 1
+  );
+  const result: Record<string, UptimeHistory> = {};
+
+  for (const id of ids) {
+    const segments = data[id] ?? [];
+
+    const days: UptimeDay[] = [];
+    for (let i = RETENTION_DAYS; i > 0; i--) {
+      const dayStart = endOfToday - i * DAY_MS;
+      const dayEnd = dayStart + DAY_MS;
+      let status: StatusLevel | null = null;
+
+      for (const seg of segments) {
+        if (Date.parse(seg.start) < dayEnd && Date.parse(seg.end) >= dayStart) {
+          status = status ? maxStatus(status, seg.status) : seg.status;
+        }
+      }
+
+      days.push({
+        date: new Date(dayStart).toISOString().slice(0, 10),
+        status,
+      });
+    }
+
+    result[id] = {
+      days,
+      availability30d: availability(
+        segments,
+        now.getTime() - 30 * DAY_MS,
+        now.getTime(),
+        excludeMaintenanceFromUptime
+      ),
+      availability90d: availability(
+        segments,
+        now.getTime() - RETENTION_DAYS * DAY_MS,
+        now.getTime(),
+        excludeMaintenanceFromUptime
+      ),
+    };
+  }
+
+  return result;
+}
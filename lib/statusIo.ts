@@ -0,0 +1,169 @@
+// lib/statusIo.ts
+// Parser for the Status.io public status API
+// (https://api.status.io/1.0/status/<statuspage id>).
+import { maxStatus, type StatusLevel } from "./statusLevels";
+import type {
+  ParsedStatusPage,
+  StatusComponent,
+  StatusIncident,
+  StatusMaintenance,
+} from "./statusSources";
+import { finishStatusPage, phaseFromStatus, toIso } from "./statusPageParsing";
+
+// Subset of the API shape we read
+interface StatusIoContainer {
+  id: string;
+  name: string;
+  status_code?: number;
+}
+
+interface StatusIoComponent extends StatusIoContainer {
+  containers?: StatusIoContainer[];
+}
+
+interface StatusIoMessage {
+  state?: number | string;
+  status?: number;
+  details?: string;
+  datetime?: string;
+}
+
+interface StatusIoEvent {
+  _id?: string;
+  id?: string;
+  name?: string;
+  datetime_open?: string;
+  datetime_planned_start?: string;
+  datetime_planned_end?: string;
+  messages?: StatusIoMessage[];
+  components_affected?: { name?: string }[];
+}
+
+interface StatusIoResponse {
+  result?: {
+    status_overall?: { status_code?: number; updated?: string };
+    status?: StatusIoComponent[];
+    incidents?: StatusIoEvent[];
+    maintenance?: { active?: StatusIoEvent[]; upcoming?: StatusIoEvent[] };
+  };
+}
+
+// Incident message states: 100 investigating, 200 identified, 300 monitoring
+const INCIDENT_STATES: Record<string, string> = {
+  "100": "investigating",
+  "200": "identified",
+  "300": "monitoring",
+};
+
+/**
+ * Status.io status code → StatusLevel.
+ * 100 operational, 200 planned maintenance, 300 degraded performance,
+ * 400 partial disruption, 500 disruption, 600 security event.
+ * Planned maintenance is operational; it is tracked through `maintenances`.
+ */
+export function statusIoLevel(code?: number): StatusLevel {
+  switch (code) {
+    case 100:
+    case 200:
+      return "operational";
+    case 300:
+      return "degraded";
+    case 400:
+      return "partial_outage";
+    case 500:
+    case 600:
+      return "major_outage";
+    default:
+      return "degraded";
+  }
+}
+
+function eventId(event: StatusIoEvent): string {
+  return event._id ?? event.id ?? `${event.name}-${event.datetime_open}`;
+}
+
+function toMaintenance(
+  event: StatusIoEvent,
+  state: StatusMaintenance["state"],
+  detailUrl: string
+): StatusMaintenance {
+  return {
+    id: eventId(event),
+    title: event.name ?? "Maintenance",
+    state,
+    scheduledFor: toIso(event.datetime_planned_start),
+    scheduledUntil: toIso(event.datetime_planned_end),
+    components: event.components_affected
+      ?.map((c) => c.name)
+      .filter((name): name is string => !!name),
+    link: detailUrl,
+  };
+}
+
+export function parseStatusIoStatus(
+  data: unknown,
+  detailUrl: string
+): ParsedStatusPage {
+  const result = (data as StatusIoResponse)?.result;
+  if (!result?.status_overall) {
+    throw new SyntaxError("Status.io response has no status_overall");
+  }
+
+  // A component runs in one or more containers (usually regions); list each
+  // pair so a single-region problem stays visible
+  const components: StatusComponent[] = (result.status ?? []).flatMap((c) =>
+    c.containers?.length
+      ? c.containers.map((container) => ({
+          id: `${c.id}-${container.id}`,
+          name:
+            c.containers!.length > 1 ? `${c.name} (${container.name})` : c.name,
+          status: statusIoLevel(container.status_code),
+          group: c.name,
+        }))
+      : [{ id: c.id, name: c.name, status: statusIoLevel(c.status_code) }]
+  );
+
+  const incidents: StatusIncident[] = (result.incidents ?? []).map((event) => {
+    const messages = [...(event.messages ?? [])].sort((a, b) =>
+      (b.datetime ?? "").localeCompare(a.datetime ?? "")
+    );
+    const latest = messages[0];
+    const impact = messages.reduce<StatusLevel>(
+      (worst, m) => maxStatus(worst, statusIoLevel(m.status)),
+      "degraded"
+    );
+    return {
+      id: eventId(event),
+      title: event.name ?? "Incident",
+      phase: phaseFromStatus(INCIDENT_STATES[String(latest?.state)]),
+      impact,
+      startedAt: toIso(event.datetime_open),
+      updatedAt: toIso(latest?.datetime ?? event.datetime_open),
+      link: detailUrl,
+      components: event.components_affected
+        ?.map((c) => c.name)
+        .filter((name): name is string => !!name),
+      updates: messages.map((m) => ({
+        phase: phaseFromStatus(INCIDENT_STATES[String(m.state)]),
+        body: m.details ?? "",
+        at: toIso(m.datetime),
+      })),
+    };
+  });
+
+  const maintenances = [
+    ...(result.maintenance?.active ?? []).map((e) =>
+      toMaintenance(e, "in_progress", detailUrl)
+    ),
+    ...(result.maintenance?.upcoming ?? []).map((e) =>
+      toMaintenance(e, "scheduled", detailUrl)
+    ),
+  ];
+
+  return finishStatusPage(
+    statusIoLevel(result.status_overall.status_code),
+    incidents,
+    components,
+    maintenances
+  );
+}
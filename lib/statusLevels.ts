@@ -0,0 +1,162 @@
+// lib/statusLevels.ts
+// Severity model shared by adapters, rollups, alerts and the UI.
+// No server-only imports here: client components use it too.
+import type { ProviderGroup } from "./providerConfig";
+import type { StatusMaintenance, StatusSummary } from "./statusSources";
+
+export type StatusLevel =
+  | "unknown"
+  | "operational"
+  | "degraded"
+  | "partial_outage"
+  | "major_outage";
+
+// Least → most severe. "unknown" ranks lowest so a failed fetch never masks
+// a real signal.
+export const STATUS_ORDER: StatusLevel[] = [
+  "unknown",
+  "operational",
+  "degraded",
+  "partial_outage",
+  "major_outage",
+];
+
+export const STATUS_LABELS: Record<StatusLevel, string> = {
+  unknown: "Unreachable",
+  operational: "Operational",
+  degraded: "Degraded",
+  partial_outage: "Partial outage",
+  major_outage: "Major outage",
+};
+
+// An "unknown" provider only counts towards the rollup once it has been
+// unreachable for this long; shorter gaps are usually our own network.
+const UNKNOWN_GRACE_MS = 10 * 60 * 1000;
+
+// Ceiling for non-critical providers and groups in a rollup
+const NON_CRITICAL_CAP: StatusLevel = "degraded";
+
+// Hex colors (no "#") for non-Tailwind renderers: alerts, badges, embeds
+export const STATUS_COLORS: Record<StatusLevel, string> = {
+  unknown: "94a3b8",
+  operational: "10b981",
+  degraded: "f59e0b",
+  partial_outage: "f97316",
+  major_outage: "f43f5e",
+};
+
+/**
+ * Position of a level in STATUS_ORDER (higher = worse).
+ */
+export function statusSeverity(level: StatusLevel): number {
+  return STATUS_ORDER.indexOf(level);
+}
+
+/**
+ * Combine two StatusLevels and return the "worst" one.
+ */
+export function maxStatus(a: StatusLevel, b: StatusLevel): StatusLevel {
+  return STATUS_ORDER[Math.max(statusSeverity(a), statusSeverity(b))] ?? b;
+}
+
+/**
+ * Limit a level to "degraded" unless it comes from something critical.
+ */
+export function capStatus(level: StatusLevel, critical = true): StatusLevel {
+  return critical || statusSeverity(level) <= statusSeverity(NON_CRITICAL_CAP)
+    ? level
+    : NON_CRITICAL_CAP;
+}
+
+/**
+ * True when an operator acknowledgement covers the summary's current state:
+ * the feed is no worse than when it was acknowledged. Alerts stay quiet.
+ */
+export function isAcknowledged(summary: StatusSummary): boolean {
+  const ack = summary.acknowledgement;
+  return (
+    !!ack &&
+    statusSeverity(summary.feedStatus ?? summary.status) <=
+      statusSeverity(ack.status)
+  );
+}
+
+/**
+ * Worst level across providers. An "unknown" provider is left out until it
+ * has been unreachable for UNKNOWN_GRACE_MS, after which it counts as
+ * "degraded". Providers with `critical: false` count as "degraded" at most.
+ */
+export function rollupStatus(
+  statuses: StatusSummary[],
+  now: number = Date.now()
+): StatusLevel {
+  return statuses.reduce<StatusLevel>((worst, s) => {
+    if (s.status !== "unknown") {
+      return maxStatus(worst, capStatus(s.status, s.critical !== false));
+    }
+
+    const since = s.error ? Date.parse(s.error.since) : now;
+    return now - since >= UNKNOWN_GRACE_MS
+      ? maxStatus(worst, "degraded")
+      : worst;
+  }, "unknown");
+}
+
+export interface DashboardRollup {
+  overall: StatusLevel;
+  /** Rolled-up level per group id */
+  groups: Record<string, StatusLevel>;
+}
+
+/**
+ * Roll providers up into their groups, then groups into one overall level.
+ * Non-critical groups count as "degraded" at most towards the overall level.
+ */
+export function rollupDashboard(
+  statuses: StatusSummary[],
+  groups: ProviderGroup[],
+  now: number = Date.now()
+): DashboardRollup {
+  const byGroup: Record<string, StatusLevel> = {};
+  let overall: StatusLevel = "unknown";
+
+  for (const group of groups) {
+    const level = rollupStatus(
+      statuses.filter((s) => s.group === group.id),
+      now
+    );
+    byGroup[group.id] = level;
+    overall = maxStatus(overall, capStatus(level, group.critical));
+  }
+
+  return { overall, groups: byGroup };
+}
+
+// How far ahead the dashboard lists scheduled maintenance
+const MAINTENANCE_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * In-progress maintenance plus windows starting within the next 7 days,
+ * across all providers: in-progress first, then by start time.
+ */
+export function getUpcomingMaintenance(
+  statuses: StatusSummary[],
+  now: number = Date.now()
+): (StatusMaintenance & { provider: string })[] {
+  const horizon = now + MAINTENANCE_HORIZON_MS;
+
+  return statuses
+    .flatMap((s) =>
+      (s.maintenances ?? []).map((m) => ({ ...m, provider: s.name }))
+    )
+    .filter(
+      (m) =>
+        m.state === "in_progress" ||
+        !m.scheduledFor ||
+        Date.parse(m.scheduledFor) <= horizon
+    )
+    .sort((a, b) => {
+      if (a.state !== b.state) return a.state === "in_progress" ? -1 : 1;
+      return (a.scheduledFor ?? "").localeCompare(b.scheduledFor ?? "");
+    });
+}
@@ -0,0 +1,95 @@
+// lib/statusPageParsing.ts
+// Helpers shared by the status page parsers (Statuspage, incident.io,
+// Instatus, Better Stack, Status.io, Google Cloud, Azure) and the RSS feed
+// parser.
+import { maxStatus, type StatusLevel } from "./statusLevels";
+import type {
+  IncidentPhase,
+  ParsedStatusPage,
+  StatusComponent,
+  StatusIncident,
+  StatusMaintenance,
+} from "./statusSources";
+
+/**
+ * ISO 8601 from an ISO/RFC date string or epoch milliseconds.
+ */
+export function toIso(value: unknown): string | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const time = typeof value === "number" ? value : Date.parse(value);
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+/**
+ * Map a vendor incident state ("INVESTIGATING", "Monitoring", "resolved",
+ * "postmortem", ...) onto our lifecycle phases.
+ */
+export function phaseFromStatus(status: unknown): IncidentPhase {
+  const lower = String(status ?? "").toLowerCase();
+  if (/resolv|complet|postmortem|closed/.test(lower)) return "resolved";
+  if (lower.includes("monitor")) return "monitoring";
+  if (lower.includes("identif")) return "identified";
+  return "investigating";
+}
+
+/**
+ * Assemble a ParsedStatusPage: the status is the worst of `base` (the
+ * page-wide indicator, if any), open incident impacts and component levels.
+ * Incidents come back open first, newest first within each bucket.
+ */
+export function finishStatusPage(
+  base: StatusLevel,
+  incidents: StatusIncident[],
+  components: StatusComponent[],
+  maintenances: StatusMaintenance[],
+  description?: string
+): ParsedStatusPage {
+  let status = base;
+  for (const incident of incidents) {
+    if (incident.phase !== "resolved") {
+      status = maxStatus(status, incident.impact);
+    }
+  }
+  for (const component of components) {
+    status = maxStatus(status, component.status);
+  }
+
+  incidents.sort((a, b) => {
+    const open =
+      Number(b.phase !== "resolved") - Number(a.phase !== "resolved");
+    return open || (b.updatedAt ?? "").localeCompare(a.updatedAt ?? "");
+  });
+
+  return { status, description, incidents, components, maintenances };
+}
+
+/**
+ * Narrow a parsed page to pinned component names/ids: only those components
+ * and the incidents touching them (or not naming any) drive the status, and
+ * the page-wide indicator is ignored.
+ */
+export function pinComponents(
+  page: ParsedStatusPage,
+  pinned: string[]
+): ParsedStatusPage {
+  const wanted = pinned.map((p) => p.toLowerCase());
+  const components = page.components.filter(
+    (c) =>
+      wanted.includes(c.name.toLowerCase()) ||
+      wanted.includes(c.id.toLowerCase())
+  );
+  const names = new Set(components.map((c) => c.name.toLowerCase()));
+  const touches = (affected?: string[]) =>
+    !affected?.length ||
+    affected.some(
+      (name) =>
+        names.has(name.toLowerCase()) || wanted.includes(name.toLowerCase())
+    );
+
+  return finishStatusPage(
+    "operational",
+    page.incidents.filter((i) => touches(i.components)),
+    components,
+    page.maintenances.filter((m) => touches(m.components))
+  );
+}
@@ -1,14 +1,59 @@
 // lib/statusSources.ts
+import {
+  decodeAwsFeed,
+  evaluateAwsEvents,
+  type AwsHealthFilter,
+} from "./awsHealth";
+import { parseAzureFeed } from "./azureStatus";
+import { parseBetterStackIndex } from "./betterStack";
+import { resolveSecret } from "./configFile";
+import { parseFeed } from "./feedParser";
+import { parseGoogleCloudIncidents } from "./googleCloud";
+import { evaluateHttpCheck, type HttpCheckConfig } from "./httpCheck";
+import { parseIncidentIoWidget } from "./incidentIo";
+import { parseInstatusSummary } from "./instatus";
+import { recordFetch } from "./metrics";
+import {
+  getProviderConfig,
+  resolvePollSettings,
+  type AdapterKind,
+  type ProviderConfig,
+} from "./providerConfig";
+import {
+  DEFAULT_RSS_RULES,
+  groupFeedItems,
+  resolveRssRules,
+  type RssRules,
+} from "./rssIncidents";
+import type {
+  Acknowledgement,
+  OperatorNote,
+  StatusOverride,
+} from "./overrides";
+import { maxStatus, type StatusLevel } from "./statusLevels";
+import { parseStatusIoStatus } from "./statusIo";
+import { pinComponents, toIso } from "./statusPageParsing";
 
 // ─────────────────────────────
 // TYPES & SHARED HELPERS
 // ─────────────────────────────
 
-export type StatusLevel =
-  | "operational"
-  | "degraded"
-  | "partial_outage"
-  | "major_outage";
+/**
+ * Why we could not read a provider's feed. Set either on an "unknown"
+ * summary, or by the poller on cached data whose latest refresh failed.
+ */
+export type FetchErrorKind = "timeout" | "dns" | "http" | "parse" | "network";
+
+export interface FetchError {
+  kind: FetchErrorKind;
+  message: string;
+  httpStatus?: number;
+  /** ISO time of the first failure in the current unbroken failure streak */
+  since: string;
+}
+
+// Every time below is ISO 8601 in UTC; adapters normalise whatever the
+// vendor sends (RFC 822, offsets, epoch) with toIso().
 
 export interface StatusItem {
   title: string;
@@ -16,31 +61,110 @@ export interface StatusItem {
   link?: string;
 }
 
-export interface StatusSummary {
+export interface StatusComponent {
   id: string;
   name: string;
   status: StatusLevel;
-  detailUrl?: string;
-  lastUpdated?: string;
-  message?: string;
-  latestItems?: StatusItem[];
+  /** Name of the vendor's component group, if any */
+  group?: string;
 }
 
-// Use this in the main UI as subtitle / description
-export const DASHBOARD_DESCRIPTION =
-  "Infra status dashboard monitoring: AWS Health (global, us-east-2), Cloudflare, Datadog EU, GitHub, Boomi, Cybersource, commercetools, Ordergroove, Vercel, Contentful, Jira Software, and Confluence.";
+export type IncidentPhase =
+  | "investigating"
+  | "identified"
+  | "monitoring"
+  | "resolved";
+
+export const INCIDENT_PHASE_LABELS: Record<IncidentPhase, string> = {
+  investigating: "Investigating",
+  identified: "Identified",
+  monitoring: "Monitoring",
+  resolved: "Resolved",
+};
 
 /**
- * Strip HTML / CDATA and normalize whitespace.
+ * One post on an incident's timeline.
  */
-function stripHtml(input: string): string {
-  if (!input) return "";
-  return input
-    .replace(/<!\[CDATA\[/g, "")
-    .replace(/\]\]>/g, "")
-    .replace(/<[^>]+>/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
+export interface IncidentUpdate {
+  phase: IncidentPhase;
+  body: string;
+  at?: string;
+}
+
+export interface StatusIncident {
+  id: string;
+  title: string;
+  phase: IncidentPhase;
+  impact: StatusLevel;
+  startedAt?: string;
+  updatedAt?: string;
+  resolvedAt?: string;
+  link?: string;
+  /** Names of affected components, when the source lists them */
+  components?: string[];
+  /** Timeline posts, newest first, when the source publishes them */
+  updates?: IncidentUpdate[];
+}
+
+export type MaintenanceState = "scheduled" | "in_progress";
+
+export interface StatusMaintenance {
+  id: string;
+  title: string;
+  state: MaintenanceState;
+  scheduledFor?: string;
+  scheduledUntil?: string;
+  /** Names of affected components */
+  components?: string[];
+  link?: string;
+}
+
+/**
+ * What a status page parser (lib/incidentIo.ts, lib/instatus.ts, ...)
+ * extracts from one response, before it becomes a StatusSummary.
+ */
+export interface ParsedStatusPage {
+  status: StatusLevel;
+  /** The page's own headline, when the format has one */
+  description?: string;
+  incidents: StatusIncident[];
+  components: StatusComponent[];
+  maintenances: StatusMaintenance[];
+}
+
+export interface StatusSummary {
+  id: string;
+  name: string;
+  status: StatusLevel;
+  /** Provider group id from config/providers.json */
+  group?: string;
+  /** False for providers that only ever count as "degraded" in rollups */
+  critical?: boolean;
+  /** Provider tags from config/providers.json */
+  tags?: string[];
+  detailUrl?: string;
+  lastUpdated?: string;
+  message?: string;
+  latestItems?: StatusItem[];
+  components?: StatusComponent[];
+  incidents?: StatusIncident[];
+  /** Upcoming and in-progress planned maintenance (completed ones dropped) */
+  maintenances?: StatusMaintenance[];
+  /** True while a maintenance window is in progress */
+  inMaintenance?: boolean;
+  error?: FetchError;
+  /** http-check only: time to full response body */
+  responseTimeMs?: number;
+  /** When the poller last got an answer from the provider (ISO) */
+  fetchedAt?: string;
+  /** No answer for `staleAfterIntervals` polls; the status is "unknown" */
+  stale?: boolean;
+  /** Operator override in force; `status` is its level */
+  override?: StatusOverride;
+  /** The feed's own level while an override is in force */
+  feedStatus?: StatusLevel;
+  acknowledgement?: Acknowledgement;
+  note?: OperatorNote;
 }
 
 /**
@@ -53,158 +177,203 @@ function truncate(input: string, max: number): string {
 }
 
 /**
- * Infer status from a text blob (RSS title + description).
- * We NEVER return "unknown".
+ * Thrown by adapters when the feed answers with a non-2xx status.
  */
-function inferStatusFromText(text: string): StatusLevel {
-  const lower = (text || "").toLowerCase();
-
-  if (!lower) {
-    // if feed is empty but reachable, be optimistic
-    return "operational";
+class HttpStatusError extends Error {
+  constructor(readonly status: number) {
+    super(`HTTP ${status}`);
+    this.name = "HttpStatusError";
   }
+}
 
-  // Strong "red" signals
-  if (
-    lower.includes("major outage") ||
-    lower.includes("critical") ||
-    lower.includes("unavailable") ||
-    lower.includes("service disruption") ||
-    lower.includes("downtime") ||
-    lower.includes("outage")
-  ) {
-    return "major_outage";
+/**
+ * Work out what kind of failure a fetch/parse error was.
+ */
+function classifyFetchError(err: unknown): Omit<FetchError, "since"> {
+  if (err instanceof HttpStatusError) {
+    return { kind: "http", message: err.message, httpStatus: err.status };
   }
+  if (err instanceof SyntaxError) {
+    return { kind: "parse", message: err.message };
+  }
+
+  const e = err as {
+    name?: string;
+    message?: string;
+    cause?: { code?: string };
+  };
+  const code = e?.cause?.code;
+  const message = e?.message ?? String(err);
 
-  // Amber / degraded signals
   if (
-    lower.includes("partial") ||
-    lower.includes("degraded") ||
-    lower.includes("degradation") ||
-    lower.includes("incident") ||
-    lower.includes("maintenance") ||
-    lower.includes("investigating") ||
-    lower.includes("monitoring")
+    e?.name === "TimeoutError" ||
+    e?.name === "AbortError" ||
+    code === "UND_ERR_CONNECT_TIMEOUT" ||
+    code === "UND_ERR_HEADERS_TIMEOUT" ||
+    code === "ETIMEDOUT"
   ) {
-    return "degraded";
+    return { kind: "timeout", message };
   }
+  if (code === "ENOTFOUND" || code === "EAI_AGAIN") {
+    return { kind: "dns", message };
+  }
+  return { kind: "network", message };
+}
 
-  // Explicit green-ish phrases
-  if (
-    lower.includes("resolved") ||
-    lower.includes("operational") ||
-    lower.includes("normal") ||
-    lower.includes("all systems")
-  ) {
-    return "operational";
+function describeFetchError(error: Omit<FetchError, "since">): string {
+  switch (error.kind) {
+    case "timeout":
+      return "request timed out";
+    case "dns":
+      return "DNS lookup failed";
+    case "http":
+      return `HTTP ${error.httpStatus}`;
+    case "parse":
+      return "response could not be parsed";
+    case "network":
+      return "network error";
   }
+}
 
-  // Default: operational (no "unknown")
-  return "operational";
+/**
+ * Uncached GET; the poller owns freshness and passes the timeout signal.
+ */
+function fetchUpstream(
+  url: string,
+  signal?: AbortSignal,
+  init: RequestInit = {}
+): Promise<Response> {
+  return fetch(url, { ...init, cache: "no-store", signal });
+}
+
+// Start of the current failure streak per provider id (in-process only).
+const failingSince = new Map<string, string>();
+
+function markReachable(id: string): void {
+  failingSince.delete(id);
+}
+
+/**
+ * Build the "unknown" summary returned when a feed can't be read.
+ */
+function unreachableSummary(
+  id: string,
+  name: string,
+  detailUrl: string,
+  title: string,
+  err: unknown
+): StatusSummary {
+  const now = new Date().toISOString();
+  const since = failingSince.get(id) ?? now;
+  failingSince.set(id, since);
+
+  const error = { ...classifyFetchError(err), since };
+  const message = `${title} (${describeFetchError(error)})`;
+
+  return {
+    id,
+    name,
+    status: "unknown",
+    detailUrl,
+    lastUpdated: since,
+    message,
+    latestItems: [
+      {
+        title: message,
+        date: since,
+        link: detailUrl,
+      },
+    ],
+    error,
+  };
 }
 
 /**
- * Generic RSS-based status fetcher with trimmed text.
+ * Generic RSS 2.0 / Atom status fetcher with trimmed text.
+ *
+ * Items are grouped into incidents and maintenances (see
+ * lib/rssIncidents.ts); the status is the worst impact among incidents that
+ * are not resolved. Maintenance never affects the status.
  */
 async function getRssStatus(
   id: string,
   name: string,
   url: string,
-  detailUrl?: string
+  detailUrl?: string,
+  rules: RssRules = DEFAULT_RSS_RULES,
+  signal?: AbortSignal
 ): Promise<StatusSummary> {
   try {
-    const res = await fetch(url, { next: { revalidate: 60 } });
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-
-    const xml = await res.text();
-
-    // grab first 3 <item> blocks
-    const itemBlocks = [...xml.matchAll(/<item>[\s\S]*?<\/item>/gi)].map(
-      (m) => m[0]
-    );
-    const firstItem = itemBlocks[0] ?? "";
-
-    const titleMatch = firstItem.match(/<title>([\s\S]*?)<\/title>/i);
-    const descrMatch = firstItem.match(
-      /<description>([\s\S]*?)<\/description>/i
-    );
-    const pubDateMatch = firstItem.match(/<pubDate>([^<]*)<\/pubDate>/i);
-
-    const rawTitle = titleMatch?.[1] ?? "";
-    const rawDesc = descrMatch?.[1] ?? "";
-
-    const plainTitle = stripHtml(rawTitle);
-    const plainDesc = stripHtml(rawDesc);
-    const lastUpdated = pubDateMatch?.[1]?.trim();
-
-    const combinedPlain = (plainTitle + " " + plainDesc).trim();
-    const status = inferStatusFromText(combinedPlain);
+    const res = await fetchUpstream(url, signal);
+    if (!res.ok) throw new HttpStatusError(res.status);
 
-    const latestItems: StatusItem[] = itemBlocks.slice(0, 3).map((block) => {
-      const rawItemTitle =
-        block.match(/<title>([\s\S]*?)<\/title>/i)?.[1] ?? "";
-      const rawItemDesc =
-        block.match(/<description>([\s\S]*?)<\/description>/i)?.[1] ?? "";
-      const date = block.match(/<pubDate>([^<]*)<\/pubDate>/i)?.[1]?.trim();
-      const link = block.match(/<link>([^<]*)<\/link>/i)?.[1]?.trim();
+    const items = await parseFeed(await res.text());
+    const { incidents, maintenances } = groupFeedItems(items, rules);
+    const openIncidents = incidents.filter((i) => i.phase !== "resolved");
 
-      const plain = stripHtml(rawItemTitle || rawItemDesc || "No title");
-
-      return {
-        title: truncate(plain, 120),
-        date,
-        link,
-      };
-    });
+    let status: StatusLevel = "operational";
+    for (const incident of openIncidents) {
+      status = maxStatus(status, incident.impact);
+    }
 
-    const messageSource =
-      combinedPlain || plainTitle || plainDesc || "No recent items in feed";
-    const message = truncate(messageSource, 260);
+    const latestItems: StatusItem[] = incidents.slice(0, 3).map((incident) => ({
+      title: truncate(
+        `${INCIDENT_PHASE_LABELS[incident.phase]}: ${incident.title}`,
+        120
+      ),
+      date: incident.updatedAt,
+      link: incident.link,
+    }));
 
+    const current = openIncidents[0];
+    const message = current
+      ? truncate(
+          `${INCIDENT_PHASE_LABELS[current.phase]}: ${current.title}`,
+          260
+        )
+      : items.length
+      ? "No active incidents"
+      : "No recent items in feed";
+
+    markReachable(id);
     return {
       id,
       name,
       status,
       detailUrl: detailUrl ?? url,
-      lastUpdated,
+      lastUpdated: items[0]?.date,
       message,
       latestItems: latestItems.length ? latestItems : undefined,
+      incidents: incidents.length ? incidents : undefined,
+      maintenances: maintenances.length ? maintenances : undefined,
+      inMaintenance: maintenances.some((m) => m.state === "in_progress"),
     };
   } catch (err) {
     console.error(`RSS status fetch failed for ${name}`, err);
-
-    // If we can't even read the feed, treat as "degraded" (definite)
-    const now = new Date().toISOString();
-    return {
+    return unreachableSummary(
       id,
       name,
-      status: "degraded",
-      detailUrl: detailUrl ?? url,
-      lastUpdated: now,
-      message: "Unable to fetch status feed",
-      latestItems: [
-        {
-          title: "Unable to fetch status feed",
-          date: now,
-          link: detailUrl ?? url,
-        },
-      ],
-    };
+      detailUrl ?? url,
+      "Unable to fetch status feed",
+      err
+    );
   }
 }
 
 /**
  * Map Statuspage indicator -> StatusLevel.
- * No "unknown": default → "degraded".
+ * No "unknown": default → "degraded". "maintenance" is operational; the
+ * maintenance itself shows through `inMaintenance`.
  */
-function mapStatuspageIndicator(indicator?: string | null): StatusLevel {
+export function mapStatuspageIndicator(indicator?: string | null): StatusLevel {
   switch (indicator) {
     case "none":
+    case "maintenance":
       return "operational";
     case "minor":
-    case "maintenance":
       return "degraded";
     case "major":
+      return "partial_outage";
     case "critical":
       return "major_outage";
     default:
@@ -213,27 +382,15 @@ function mapStatuspageIndicator(indicator?: string | null): StatusLevel {
   }
 }
 
-/**
- * Combine two StatusLevels and return the "worst" one.
- */
-function maxStatus(a: StatusLevel, b: StatusLevel): StatusLevel {
-  const order: StatusLevel[] = [
-    "operational",
-    "degraded",
-    "partial_outage",
-    "major_outage",
-  ];
-  return order[Math.max(order.indexOf(a), order.indexOf(b))] ?? b;
-}
-
 /**
  * Map Statuspage incident impact -> StatusLevel (or null if unknown).
  */
-function impactToStatus(impact?: string | null): StatusLevel | null {
+export function impactToStatus(impact?: string | null): StatusLevel | null {
   switch (impact) {
     case "critical":
-    case "major":
       return "major_outage";
+    case "major":
+      return "partial_outage";
     case "minor":
     case "maintenance":
     case "none":
@@ -243,6 +400,74 @@ function impactToStatus(impact?: string | null): StatusLevel | null {
   }
 }
 
+/**
+ * Map an HTTP status code from a reachability check -> StatusLevel.
+ * 502/503/504 mean the service (or its edge) is down; other 5xx mean parts
+ * of it are failing; 4xx means it answers but not the way we expect.
+ */
+export function httpStatusToLevel(code: number): StatusLevel {
+  if (code >= 200 && code < 400) return "operational";
+  if (code === 502 || code === 503 || code === 504) return "major_outage";
+  if (code >= 500) return "partial_outage";
+  return "degraded";
+}
+
+/**
+ * AWS Health Dashboard consumer (public currentevents feed), filtered to the
+ * regions / services we run on.
+ */
+async function getAwsHealthStatus(
+  id: string,
+  name: string,
+  url: string,
+  detailUrl: string,
+  filter: AwsHealthFilter = {},
+  signal?: AbortSignal
+): Promise<StatusSummary> {
+  try {
+    const res = await fetchUpstream(url, signal);
+    if (!res.ok) throw new HttpStatusError(res.status);
+
+    const data = JSON.parse(decodeAwsFeed(await res.arrayBuffer()));
+    const { status, incidents, components } = evaluateAwsEvents(
+      data,
+      filter,
+      detailUrl
+    );
+    const openIncidents = incidents.filter((i) => i.phase !== "resolved");
+
+    const latestItems: StatusItem[] = incidents.slice(0, 3).map((incident) => ({
+      title: truncate(incident.title, 120),
+      date: incident.updatedAt,
+      link: incident.link,
+    }));
+
+    markReachable(id);
+    return {
+      id,
+      name,
+      status,
+      detailUrl,
+      lastUpdated: incidents[0]?.updatedAt ?? new Date().toISOString(),
+      message: openIncidents.length
+        ? truncate(openIncidents[0].title, 260)
+        : "No open events for monitored services",
+      latestItems: latestItems.length ? latestItems : undefined,
+      components: components.length ? components : undefined,
+      incidents: incidents.length ? incidents : undefined,
+    };
+  } catch (err) {
+    console.error(`${name} AWS Health fetch failed`, err);
+    return unreachableSummary(
+      id,
+      name,
+      detailUrl,
+      `Unable to fetch ${name} events`,
+      err
+    );
+  }
+}
+
 /**
  * Generic "simple HTTP ping" status (for endpoints that don't expose
  * a proper status JSON but where reachability already tells us a lot).
@@ -250,23 +475,21 @@ function impactToStatus(impact?: string | null): StatusLevel | null {
 async function getSimpleHttpStatus(
   id: string,
   name: string,
-  url: string
+  url: string,
+  signal?: AbortSignal
 ): Promise<StatusSummary> {
   try {
-    const res = await fetch(url, { next: { revalidate: 60 } });
+    const res = await fetchUpstream(url, signal);
     const now = new Date().toISOString();
     const ok = res.ok;
 
-    const status: StatusLevel = ok
-      ? "operational"
-      : res.status >= 500
-      ? "major_outage"
-      : "degraded";
+    const status = httpStatusToLevel(res.status);
 
     const msg = ok
       ? `Endpoint reachable (HTTP ${res.status})`
       : `Endpoint error (HTTP ${res.status})`;
 
+    markReachable(id);
     return {
       id,
       name,
@@ -284,22 +507,68 @@ async function getSimpleHttpStatus(
     };
   } catch (err) {
     console.error(`${name} simple HTTP status check failed`, err);
+    return unreachableSummary(id, name, url, "Unable to reach endpoint", err);
+  }
+}
+
+/**
+ * Configurable synthetic check for our own endpoints (see lib/httpCheck.ts).
+ * Responses are graded on status code, body assertions and latency; a
+ * request that gets no response at all is "unknown" like any other feed.
+ */
+async function getHttpCheckStatus(
+  id: string,
+  name: string,
+  url: string,
+  detailUrl: string,
+  check: HttpCheckConfig = {},
+  signal?: AbortSignal
+): Promise<StatusSummary> {
+  try {
+    const headers = Object.fromEntries(
+      Object.entries(check.headers ?? {}).map(([key, value]) => [
+        key,
+        resolveSecret(value) ?? "",
+      ])
+    );
+
+    const started = performance.now();
+    const res = await fetchUpstream(url, signal, {
+      method: check.method ?? "GET",
+      headers,
+      body: check.body,
+    });
+    const body = await res.text();
+    const elapsedMs = Math.round(performance.now() - started);
+
+    const { status, failures } = evaluateHttpCheck(
+      { status: res.status, body, elapsedMs },
+      check
+    );
     const now = new Date().toISOString();
+    const message = failures.length
+      ? truncate(`Check failed: ${failures.join("; ")}`, 260)
+      : `Check passed (HTTP ${res.status} in ${elapsedMs} ms)`;
+
+    markReachable(id);
     return {
       id,
       name,
-      status: "degraded",
-      detailUrl: url,
+      status,
+      detailUrl,
       lastUpdated: now,
-      message: "Unable to reach endpoint",
-      latestItems: [
-        {
-          title: "Unable to reach endpoint",
-          date: now,
-          link: url,
-        },
-      ],
+      message,
+      responseTimeMs: elapsedMs,
     };
+  } catch (err) {
+    console.error(`${name} HTTP check failed`, err);
+    return unreachableSummary(
+      id,
+      name,
+      detailUrl,
+      "Unable to reach endpoint",
+      err
+    );
   }
 }
 
@@ -310,11 +579,12 @@ async function getStatuspageStatus(
   id: string,
   name: string,
   url: string,
-  detailUrl: string
+  detailUrl: string,
+  signal?: AbortSignal
 ): Promise<StatusSummary> {
   try {
-    const res = await fetch(url, { next: { revalidate: 60 } });
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const res = await fetchUpstream(url, signal);
+    if (!res.ok) throw new HttpStatusError(res.status);
 
     const data = await res.json();
     const indicator = data?.status?.indicator as string | undefined;
@@ -322,73 +592,207 @@ async function getStatuspageStatus(
     const description = data?.status?.description as string | undefined;
     const updatedAt = data?.page?.updated_at as string | undefined;
 
+    markReachable(id);
     return {
       id,
       name,
       status,
       detailUrl,
-      lastUpdated: updatedAt,
+      lastUpdated: toIso(updatedAt),
       message: description,
     };
   } catch (err) {
     console.error(`${name} status fetch failed`, err);
-    const now = new Date().toISOString();
-    return {
+    return unreachableSummary(
       id,
       name,
-      status: "degraded",
       detailUrl,
-      lastUpdated: now,
-      message: "Unable to fetch status",
-      latestItems: [
-        {
-          title: `Unable to fetch ${name} status`,
-          date: now,
-          link: detailUrl,
-        },
-      ],
-    };
+      `Unable to fetch ${name} status`,
+      err
+    );
+  }
+}
+
+// Subset of the Statuspage summary.json shapes we read
+interface StatuspageComponent {
+  id: string;
+  name: string;
+  status?: string;
+  group?: boolean;
+  group_id?: string | null;
+}
+
+interface StatuspageMaintenance {
+  id: string;
+  name?: string;
+  status?: string;
+  scheduled_for?: string;
+  scheduled_until?: string;
+  shortlink?: string;
+  components?: { id: string; name: string }[];
+}
+
+interface StatuspageIncidentUpdate {
+  status?: string;
+  url?: string;
+  body?: string;
+  display_at?: string;
+  created_at?: string;
+}
+
+interface StatuspageIncident {
+  id: string;
+  name?: string;
+  status?: string;
+  impact?: string;
+  started_at?: string;
+  created_at?: string;
+  updated_at?: string;
+  resolved_at?: string | null;
+  shortlink?: string;
+  url?: string;
+  incident_updates?: StatuspageIncidentUpdate[];
+  components?: { id: string; name: string }[];
+}
+
+// How many incidents (open or not) the incidents.json history keeps
+const STATUSPAGE_HISTORY_LIMIT = 10;
+
+/**
+ * Map a Statuspage component status -> StatusLevel. "under_maintenance" is
+ * operational, like the "maintenance" indicator.
+ */
+export function mapComponentStatus(cStatus?: string | null): StatusLevel {
+  switch (cStatus) {
+    case "major_outage":
+      return "major_outage";
+    case "partial_outage":
+      return "partial_outage";
+    case "degraded_performance":
+      return "degraded";
+    default:
+      return "operational";
+  }
+}
+
+/**
+ * Map a Statuspage incident or update status -> IncidentPhase.
+ */
+function mapStatuspagePhase(status?: string): IncidentPhase {
+  switch (status) {
+    case "identified":
+      return "identified";
+    case "monitoring":
+      return "monitoring";
+    case "resolved":
+    case "postmortem":
+    case "completed":
+      return "resolved";
+    default:
+      return "investigating";
   }
 }
 
+function toStatuspageIncident(
+  incident: StatuspageIncident,
+  detailUrl: string
+): StatusIncident {
+  const phase = mapStatuspagePhase(incident.status);
+  return {
+    id: incident.id,
+    title: incident.name ?? "Incident",
+    phase,
+    impact: impactToStatus(incident.impact) ?? "degraded",
+    startedAt: toIso(incident.started_at ?? incident.created_at),
+    updatedAt: toIso(incident.updated_at),
+    resolvedAt: phase === "resolved" ? toIso(incident.resolved_at) : undefined,
+    link: incident.shortlink ?? incident.url ?? detailUrl,
+    components: incident.components?.map((c) => c.name),
+    updates: incident.incident_updates?.map((update) => ({
+      phase: mapStatuspagePhase(update.status),
+      body: update.body ?? "",
+      at: toIso(update.display_at ?? update.created_at),
+    })),
+  };
+}
+
 /**
  * Statuspage `/api/v2/summary.json` consumer.
  * Looks at:
  *   - global indicator
  *   - active incidents (impact)
  *   - component statuses
- * and surfaces incidents as latestItems.
+ * and surfaces incidents as latestItems and components as `components`.
+ *
+ * With `pinned` component names/ids, the global indicator is ignored and only
+ * the pinned components (plus incidents touching them) drive the status.
  */
 async function getStatuspageSummaryStatus(
   id: string,
   name: string,
   summaryUrl: string,
-  detailUrl: string
+  detailUrl: string,
+  pinned?: string[],
+  signal?: AbortSignal
 ): Promise<StatusSummary> {
   try {
-    const res = await fetch(summaryUrl, { next: { revalidate: 60 } });
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const res = await fetchUpstream(summaryUrl, signal);
+    if (!res.ok) throw new HttpStatusError(res.status);
 
     const data = await res.json();
 
     const indicator = data?.status?.indicator as string | undefined;
-    let status = mapStatuspageIndicator(indicator);
     const description = data?.status?.description as string | undefined;
     const updatedAt = data?.page?.updated_at as string | undefined;
 
-    const incidents = (data?.incidents ?? []) as any[];
-    const components = (data?.components ?? []) as any[];
+    const incidents = (data?.incidents ?? []) as StatuspageIncident[];
+    const rawMaintenances = (data?.scheduled_maintenances ??
+      []) as StatuspageMaintenance[];
+    const rawComponents = (data?.components ?? []) as StatuspageComponent[];
+
+    // Group containers are components too; keep them only to name groups
+    const groupNames = new Map(
+      rawComponents.filter((c) => c.group).map((c) => [c.id, c.name])
+    );
+    const wanted = pinned?.map((p) => p.toLowerCase());
+    const components: StatusComponent[] = rawComponents
+      .filter((c) => !c.group)
+      .filter(
+        (c) =>
+          !wanted ||
+          wanted.includes(c.name.toLowerCase()) ||
+          wanted.includes(c.id.toLowerCase())
+      )
+      .map((c) => ({
+        id: c.id,
+        name: c.name,
+        status: mapComponentStatus(c.status),
+        group: c.group_id ? groupNames.get(c.group_id) : undefined,
+      }));
+    const componentIds = new Set(components.map((c) => c.id));
+
+    // The page-wide indicator covers every component, so skip it when pinned
+    let status: StatusLevel = wanted
+      ? "operational"
+      : mapStatuspageIndicator(indicator);
+
+    // Incidents we care about: all of them, or only those touching a pinned
+    // component (incidents without a component list can't be ruled out)
+    const relevantIncidents = incidents.filter(
+      (incident) =>
+        !wanted ||
+        !incident.components?.length ||
+        incident.components.some((c) => componentIds.has(c.id))
+    );
 
     // Active incidents (exclude clearly finished ones)
-    const activeIncidents = incidents.filter((incident) => {
-      const st = (incident.status as string | undefined)?.toLowerCase();
+    const activeIncidents = relevantIncidents.filter((incident) => {
+      const st = incident.status?.toLowerCase();
       return st && !["resolved", "postmortem", "completed"].includes(st);
     });
 
     for (const incident of activeIncidents) {
-      const impactLevel = impactToStatus(
-        incident.impact as string | undefined
-      );
+      const impactLevel = impactToStatus(incident.impact);
       if (impactLevel) {
         status = maxStatus(status, impactLevel);
       }
@@ -396,263 +800,367 @@ async function getStatuspageSummaryStatus(
 
     // Component-level status (major_outage / degraded / maintenance etc.)
     for (const comp of components) {
-      const cStatus = (comp.status as string | undefined) ?? "";
-      switch (cStatus) {
-        case "major_outage":
-          status = maxStatus(status, "major_outage");
-          break;
-        case "partial_outage":
-        case "degraded_performance":
-        case "under_maintenance":
-          status = maxStatus(status, "degraded");
-          break;
-        default:
-          break;
-      }
+      status = maxStatus(status, comp.status);
     }
 
-    const latestItems: StatusItem[] = incidents.slice(0, 3).map((incident) => ({
-      title: truncate(incident.name ?? "Incident", 120),
-      date:
-        incident.started_at ??
-        incident.created_at ??
-        incident.updated_at ??
-        updatedAt,
-      link:
-        incident.shortlink ??
-        incident.url ??
-        incident.incident_updates?.[0]?.url ??
-        detailUrl,
-    }));
-
+    const latestItems: StatusItem[] = relevantIncidents
+      .slice(0, 3)
+      .map((incident) => ({
+        title: truncate(incident.name ?? "Incident", 120),
+        date: toIso(
+          incident.started_at ??
+            incident.created_at ??
+            incident.updated_at ??
+            updatedAt
+        ),
+        link:
+          incident.shortlink ??
+          incident.url ??
+          incident.incident_updates?.[0]?.url ??
+          detailUrl,
+      }));
+
+    const maintenances: StatusMaintenance[] = rawMaintenances
+      .filter((m) => m.status !== "completed")
+      .filter(
+        (m) =>
+          !wanted ||
+          !m.components?.length ||
+          m.components.some((c) => componentIds.has(c.id))
+      )
+      .map((m) => ({
+        id: m.id,
+        title: truncate(m.name ?? "Scheduled maintenance", 120),
+        // "verifying" is the tail end of an in-progress window
+        state: m.status === "scheduled" ? "scheduled" : "in_progress",
+        scheduledFor: toIso(m.scheduled_for),
+        scheduledUntil: toIso(m.scheduled_until),
+        components: m.components?.map((c) => c.name),
+        link: m.shortlink ?? detailUrl,
+      }));
+
+    const affected = components.filter((c) => c.status !== "operational");
+    const message = wanted
+      ? affected.length
+        ? `Affected: ${affected.map((c) => c.name).join(", ")}`
+        : "All tracked components operational"
+      : description ?? (latestItems[0]?.title ?? "Status summary");
+
+    markReachable(id);
     return {
       id,
       name,
       status,
       detailUrl,
-      lastUpdated: updatedAt,
-      message: description ?? (latestItems[0]?.title ?? "Status summary"),
+      lastUpdated: toIso(updatedAt),
+      message,
       latestItems: latestItems.length ? latestItems : undefined,
+      components: components.length ? components : undefined,
+      incidents: relevantIncidents.length
+        ? relevantIncidents.map((i) => toStatuspageIncident(i, detailUrl))
+        : undefined,
+      maintenances: maintenances.length ? maintenances : undefined,
+      inMaintenance: maintenances.some((m) => m.state === "in_progress"),
     };
   } catch (err) {
     console.error(`${name} summary status fetch failed`, err);
-    const now = new Date().toISOString();
-    return {
+    return unreachableSummary(
       id,
       name,
-      status: "degraded",
       detailUrl,
-      lastUpdated: now,
-      message: "Unable to fetch status",
-      latestItems: [
-        {
-          title: `Unable to fetch ${name} status`,
-          date: now,
-          link: detailUrl,
-        },
-      ],
-    };
+      `Unable to fetch ${name} status`,
+      err
+    );
   }
 }
 
 // ─────────────────────────────
-// PROVIDERS
+// OTHER STATUS PAGE PLATFORMS
 // ─────────────────────────────
 
-// CLOUDFLARE → /api/v2/summary.json (Statuspage)
-export async function getCloudflareStatus(): Promise<StatusSummary> {
-  return getStatuspageSummaryStatus(
-    "cloudflare",
-    "Cloudflare",
-    "https://www.cloudflarestatus.com/api/v2/summary.json",
-    "https://www.cloudflarestatus.com"
-  );
-}
-
-// AWS HEALTH (global + us-east-2)
-export async function getAwsHealthStatus(): Promise<StatusSummary> {
-  return getSimpleHttpStatus(
-    "aws-health",
-    "AWS Health",
-    "https://health.aws.amazon.com/health/status"
-  );
-}
-
-export async function getAwsHealthUsEast2Status(): Promise<StatusSummary> {
-  return getSimpleHttpStatus(
-    "aws-health-us-east-2",
-    "AWS Health (us-east-2)",
-    "https://health.aws.amazon.com/health/status?region=us-east-2"
-  );
-}
-
-// VERCEL → /api/v2/status.json (Statuspage)
-export function getVercelStatus(): Promise<StatusSummary> {
-  return getStatuspageStatus(
-    "vercel",
-    "Vercel",
-    "https://www.vercel-status.com/api/v2/summary.json",
-    "https://www.vercel-status.com"
-  );
-}
+type StatusPageKind =
+  | "incident-io"
+  | "instatus"
+  | "better-stack"
+  | "status-io"
+  | "google-cloud"
+  | "azure";
 
-// CONTENTFUL → /api/v2/summary.json (Statuspage)
-export function getContentfulStatus(): Promise<StatusSummary> {
-  return getStatuspageSummaryStatus(
-    "contentful",
-    "Contentful",
-    "https://www.contentfulstatus.com/api/v2/summary.json",
-    "https://www.contentfulstatus.com"
-  );
-}
-
-// JIRA → /api/v2/summary.json (Statuspage)
-export function getJiraStatus(): Promise<StatusSummary> {
-  return getStatuspageSummaryStatus(
-    "jira",
-    "Jira Software",
-    "https://jira-software.status.atlassian.com/api/v2/summary.json",
-    "https://jira-software.status.atlassian.com/"
-  );
-}
-
-// CONFLUENCE → /api/v2/summary.json (Statuspage)
-export function getConfluenceStatus(): Promise<StatusSummary> {
-  return getStatuspageSummaryStatus(
-    "confluence",
-    "Confluence",
-    "https://confluence.status.atlassian.com/api/v2/summary.json",
-    "https://confluence.status.atlassian.com/"
-  );
+/**
+ * Response → ParsedStatusPage per platform. Parsers live in their own
+ * modules and throw SyntaxError on a response of the wrong shape.
+ */
+const STATUS_PAGE_READERS: Record<
+  StatusPageKind,
+  (res: Response, detailUrl: string) => Promise<ParsedStatusPage>
+> = {
+  "incident-io": async (res, detailUrl) =>
+    parseIncidentIoWidget(await res.json(), detailUrl),
+  instatus: async (res, detailUrl) =>
+    parseInstatusSummary(await res.json(), detailUrl),
+  "better-stack": async (res, detailUrl) =>
+    parseBetterStackIndex(await res.json(), detailUrl),
+  "status-io": async (res, detailUrl) =>
+    parseStatusIoStatus(await res.json(), detailUrl),
+  "google-cloud": async (res, detailUrl) =>
+    parseGoogleCloudIncidents(await res.json(), detailUrl),
+  azure: async (res, detailUrl) =>
+    parseAzureFeed(await parseFeed(await res.text()), detailUrl),
+};
+
+function isStatusPageKind(kind: AdapterKind): kind is StatusPageKind {
+  return kind in STATUS_PAGE_READERS;
 }
 
-// CYBERSOURCE (Statuspage summary JSON – custom handling to keep incidents list)
-export async function getCybersourceStatus(): Promise<StatusSummary> {
-  const url = "https://status.cybersource.com/api/v2/status.json";
-
+/**
+ * Shared adapter for the non-Statuspage platforms: fetch, parse with the
+ * platform's reader, optionally narrow to pinned components, and turn the
+ * result into a StatusSummary.
+ */
+async function getStatusPageStatus(
+  kind: StatusPageKind,
+  id: string,
+  name: string,
+  url: string,
+  detailUrl: string,
+  pinned?: string[],
+  signal?: AbortSignal
+): Promise<StatusSummary> {
   try {
-    const res = await fetch(url, { next: { revalidate: 60 } });
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-
-    const data = await res.json();
-    const indicator = data?.status?.indicator as string | undefined;
-    const status = mapStatuspageIndicator(indicator);
+    const res = await fetchUpstream(url, signal);
+    if (!res.ok) throw new HttpStatusError(res.status);
 
-    const incidents = (data?.incidents ?? []) as any[];
+    const parsed = await STATUS_PAGE_READERS[kind](res, detailUrl);
+    const page = pinned?.length ? pinComponents(parsed, pinned) : parsed;
+    const { status, incidents, components, maintenances } = page;
 
     const latestItems: StatusItem[] = incidents.slice(0, 3).map((incident) => ({
-      title: truncate(incident.name ?? "Incident", 120),
-      date: incident.started_at ?? incident.created_at,
-      link:
-        incident.shortlink ?? incident.url ?? "https://status.cybersource.com",
+      title: truncate(
+        `${INCIDENT_PHASE_LABELS[incident.phase]}: ${incident.title}`,
+        120
+      ),
+      date: incident.updatedAt,
+      link: incident.link,
     }));
 
+    const current = incidents.find((i) => i.phase !== "resolved");
+    const affected = components.filter((c) => c.status !== "operational");
+    const message = current
+      ? truncate(
+          `${INCIDENT_PHASE_LABELS[current.phase]}: ${current.title}`,
+          260
+        )
+      : pinned?.length
+      ? affected.length
+        ? `Affected: ${affected.map((c) => c.name).join(", ")}`
+        : "All tracked components operational"
+      : page.description ?? "No active incidents";
+
+    markReachable(id);
     return {
-      id: "cybersource",
-      name: "Cybersource",
+      id,
+      name,
       status,
-      detailUrl: "https://status.cybersource.com",
-      lastUpdated: data?.page?.updated_at,
-      message: data?.status?.description,
+      detailUrl,
+      lastUpdated: incidents[0]?.updatedAt ?? new Date().toISOString(),
+      message,
       latestItems: latestItems.length ? latestItems : undefined,
+      components: components.length ? components : undefined,
+      incidents: incidents.length ? incidents : undefined,
+      maintenances: maintenances.length ? maintenances : undefined,
+      inMaintenance: maintenances.some((m) => m.state === "in_progress"),
     };
   } catch (err) {
-    console.error("Cybersource status fetch failed", err);
-    const now = new Date().toISOString();
-    return {
-      id: "cybersource",
-      name: "Cybersource",
-      status: "degraded",
-      detailUrl: "https://status.cybersource.com",
-      lastUpdated: now,
-      message: "Unable to fetch status",
-      latestItems: [
-        {
-          title: "Unable to fetch Cybersource status",
-          date: now,
-          link: "https://status.cybersource.com",
-        },
-      ],
-    };
+    console.error(`${name} ${kind} status fetch failed`, err);
+    return unreachableSummary(
+      id,
+      name,
+      detailUrl,
+      `Unable to fetch ${name} status`,
+      err
+    );
   }
 }
 
-// COMMERCETOOLS (RSS)
-export function getCommercetoolsStatus(): Promise<StatusSummary> {
-  return getRssStatus(
-    "commercetools",
-    "commercetools",
-    "https://status.commercetools.com/pages/56e4295370fe4ece420002bb/rss",
-    "https://status.commercetools.com"
+// ─────────────────────────────
+// PROVIDERS (declared in config/providers.json)
+// ─────────────────────────────
+
+/**
+ * Fetch one provider's status using the adapter its config names. Never
+ * throws: failures (including an aborted `signal`) come back as "unknown".
+ */
+export async function getProviderStatus(
+  provider: ProviderConfig,
+  signal?: AbortSignal
+): Promise<StatusSummary> {
+  const started = performance.now();
+  const summary = await fetchByKind(provider, signal);
+  recordFetch(
+    provider.id,
+    (performance.now() - started) / 1000,
+    !summary.error
   );
+  return {
+    ...summary,
+    group: provider.group,
+    critical: provider.critical,
+    tags: provider.tags,
+  };
 }
 
-// ORDERGROOVE (simple HTTP ping to their status API)
-export function getOrdergrooveStatus(): Promise<StatusSummary> {
-  return getStatuspageSummaryStatus(
-    "ordergroove",
-    "Ordergroove",
-    "https://status.ordergroove.com/api/v2/summary.json",
-    "https://status.ordergroove.com"
-  );
+function fetchByKind(
+  provider: ProviderConfig,
+  signal?: AbortSignal
+): Promise<StatusSummary> {
+  const { id, name, url } = provider;
+  const detailUrl = provider.detailUrl ?? url;
+
+  if (isStatusPageKind(provider.kind)) {
+    return getStatusPageStatus(
+      provider.kind,
+      id,
+      name,
+      url,
+      detailUrl,
+      provider.components,
+      signal
+    );
+  }
+
+  switch (provider.kind) {
+    case "statuspage-summary":
+      return getStatuspageSummaryStatus(
+        id,
+        name,
+        url,
+        detailUrl,
+        provider.components,
+        signal
+      );
+    case "statuspage-status":
+      return getStatuspageStatus(id, name, url, detailUrl, signal);
+    case "rss":
+      return getRssStatus(
+        id,
+        name,
+        url,
+        detailUrl,
+        resolveRssRules(provider.rss),
+        signal
+      );
+    case "http-ping":
+      return getSimpleHttpStatus(id, name, url, signal);
+    case "http-check":
+      return getHttpCheckStatus(
+        id,
+        name,
+        url,
+        detailUrl,
+        provider.check,
+        signal
+      );
+    case "aws-health":
+      return getAwsHealthStatus(id, name, url, detailUrl, provider.aws, signal);
+  }
 }
 
-// DATADOG EU (Statuspage summary)
-export function getDatadogEuStatus(): Promise<StatusSummary> {
-  return getStatuspageSummaryStatus(
-    "datadog-eu",
-    "Datadog EU",
-    "https://status.datadoghq.eu/api/v2/summary.json",
-    "https://status.datadoghq.eu"
-  );
+async function fetchIncidentHistory(
+  provider: ProviderConfig,
+  signal?: AbortSignal
+): Promise<StatusIncident[] | null> {
+  const detailUrl = provider.detailUrl ?? provider.url;
+  const wanted = provider.components?.map((c) => c.toLowerCase());
+  try {
+    const res = await fetchUpstream(
+      new URL("incidents.json", provider.url).toString(),
+      signal
+    );
+    if (!res.ok) throw new HttpStatusError(res.status);
+
+    const data = await res.json();
+    return ((data?.incidents ?? []) as StatuspageIncident[])
+      .filter(
+        (incident) =>
+          !wanted ||
+          !incident.components?.length ||
+          incident.components.some(
+            (c) =>
+              wanted.includes(c.name.toLowerCase()) ||
+              wanted.includes(c.id.toLowerCase())
+          )
+      )
+      .slice(0, STATUSPAGE_HISTORY_LIMIT)
+      .map((incident) => toStatuspageIncident(incident, detailUrl));
+  } catch (err) {
+    console.error(`${provider.name} incident history fetch failed`, err);
+    return null;
+  }
 }
 
-// GITHUB (Statuspage summary, using incidents/components so incidents like
-// "Issues and Pull Requests degraded" show as non-green)
-export function getGithubStatus(): Promise<StatusSummary> {
-  return getStatuspageSummaryStatus(
-    "github",
-    "GitHub",
-    "https://www.githubstatus.com/api/v2/summary.json",
-    "https://www.githubstatus.com"
-  );
+// Detail pages render in their own Next bundle; share the cache like the
+// poller state (see lib/poller.ts).
+const STATE_KEY = Symbol.for("infra-status-dashboard.incidentHistory");
+
+interface HistoryCacheEntry {
+  /** When the request was started (ms) */
+  at: number;
+  result: Promise<StatusIncident[] | null>;
 }
 
-// BOOMI (Statuspage summary)
-export function getBoomiStatus(): Promise<StatusSummary> {
-  return getStatuspageSummaryStatus(
-    "boomi",
-    "Boomi",
-    "https://status.boomi.com/api/v2/summary.json",
-    "https://status.boomi.com"
+const historyCache = ((globalThis as Record<symbol, unknown>)[STATE_KEY] ??=
+  new Map()) as Map<string, HistoryCacheEntry>;
+
+/**
+ * Recent incidents (open and resolved) with their full update timelines, for
+ * the provider detail page. Statuspage summaries only carry open incidents,
+ * so those providers are asked for `/api/v2/incidents.json`, at most once
+ * per poll interval. Returns null when there is nothing beyond the cached
+ * summary's incidents (other adapters, or the request failed).
+ *
+ * The request is shared by every viewer, so it runs on its own timeout
+ * rather than one page's signal, and failures are not cached.
+ */
+export function getIncidentHistory(
+  provider: ProviderConfig,
+  now: number = Date.now()
+): Promise<StatusIncident[] | null> {
+  if (
+    provider.kind !== "statuspage-summary" &&
+    provider.kind !== "statuspage-status"
+  ) {
+    return Promise.resolve(null);
+  }
+
+  const poll = resolvePollSettings(provider);
+  const cached = historyCache.get(provider.id);
+  if (cached && now - cached.at < poll.intervalSeconds * 1000) {
+    return cached.result;
+  }
+
+  const result = fetchIncidentHistory(
+    provider,
+    AbortSignal.timeout(poll.timeoutMs)
   );
+  const entry = { at: now, result };
+  historyCache.set(provider.id, entry);
+  result.then((incidents) => {
+    // Let the next view try again; keep a newer entry if one took over
+    if (!incidents && historyCache.get(provider.id) === entry) {
+      historyCache.delete(provider.id);
+    }
+  });
+  return result;
 }
 
-// ─────────────────────────────
-// AGGREGATOR
-// ─────────────────────────────
-
-export async function getAllStatuses(): Promise<StatusSummary[]> {
-  return Promise.all([
-    // AWS
-    getAwsHealthStatus(),
-    getAwsHealthUsEast2Status(),
-
-    // CDN / infra / monitoring
-    getCloudflareStatus(),
-    getDatadogEuStatus(),
-
-    // SaaS / tools
-    getGithubStatus(),
-    getBoomiStatus(),
-    getCybersourceStatus(),
-    getCommercetoolsStatus(),
-    getOrdergrooveStatus(),
-
-    // Dev / hosting / content / Atlassian
-    getVercelStatus(),
-    getContentfulStatus(),
-    getJiraStatus(),
-    getConfluenceStatus(),
-  ]);
-}
\ No newline at end of file
+/**
+ * Subtitle for the main UI, derived from the configured providers.
+ */
+export function getDashboardDescription(): string {
+  const names = getProviderConfig().providers.map((p) => p.name);
+  const list =
+    names.length > 1
+      ? `${names.slice(0, -1).join(", ")}, and ${names[names.length - 1]}`
+      : names.join("");
+  return `Infra status dashboard monitoring: ${list}.`;
+}
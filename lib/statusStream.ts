@@ -0,0 +1,52 @@
+// lib/statusStream.ts
+// Fans poller results out to live dashboard connections as full snapshots.
+import {
+  getStatusSnapshot,
+  subscribePoller,
+  type StatusSnapshot,
+} from "./poller";
+
+type Listener = (snapshot: StatusSnapshot) => void;
+
+// Providers polled on the same interval finish within moments of each
+// other; send them as one snapshot rather than one per provider.
+const BROADCAST_DELAY_MS = 1000;
+
+const listeners = new Set<Listener>();
+let unsubscribePoller: (() => void) | null = null;
+let pending: ReturnType<typeof setTimeout> | null = null;
+
+function broadcast(): void {
+  pending = null;
+  getStatusSnapshot()
+    .then((snapshot) => {
+      for (const listener of listeners) listener(snapshot);
+    })
+    .catch((err) => console.error("Broadcasting live statuses failed", err));
+}
+
+/**
+ * Receive the current snapshot now and a fresh one after each batch of poll
+ * results. Returns the unsubscribe function.
+ */
+export function subscribeStatuses(listener: Listener): () => void {
+  listeners.add(listener);
+
+  getStatusSnapshot()
+    .then((snapshot) => {
+      if (listeners.has(listener)) listener(snapshot);
+    })
+    .catch((err) => console.error("Reading live statuses failed", err));
+
+  unsubscribePoller ??= subscribePoller(() => {
+    pending ??= setTimeout(broadcast, BROADCAST_DELAY_MS);
+  });
+
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size && unsubscribePoller) {
+      unsubscribePoller();
+      unsubscribePoller = null;
+    }
+  };
+}
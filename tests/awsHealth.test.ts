@@ -0,0 +1,111 @@
+// tests/awsHealth.test.ts
+// The AWS currentevents feed: UTF-16 decoding, the region/service filter
+// and "[RESOLVED]" events.
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { decodeAwsFeed } from "@/lib/awsHealth";
+import { getProviderStatus } from "@/lib/statusSources";
+import {
+  configuredProvider,
+  readFixture,
+  stubFetchWithFixture,
+} from "./helpers";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function bytes(...parts: (number[] | Uint8Array)[]): ArrayBuffer {
+  return new Uint8Array(parts.flatMap((p) => [...p])).buffer;
+}
+
+describe("decodeAwsFeed", () => {
+  it("decodes the recorded UTF-16LE feed with its BOM", () => {
+    const fixture = readFixture("aws-currentevents.json");
+    expect([...fixture.subarray(0, 2)]).toEqual([0xff, 0xfe]);
+
+    const events = JSON.parse(decodeAwsFeed(new Uint8Array(fixture).buffer));
+
+    expect(events).toHaveLength(4);
+    expect(events[0].event_log[1].message).toContain(
+      "(use2-az2) — existing instances"
+    );
+  });
+
+  it.each([
+    ["UTF-16BE with BOM", bytes([0xfe, 0xff, 0, 0x5b, 0, 0x5d])],
+    [
+      "UTF-8 with BOM",
+      bytes([0xef, 0xbb, 0xbf], new TextEncoder().encode("[]")),
+    ],
+    ["UTF-8 without BOM", bytes(new TextEncoder().encode("[]"))],
+  ])("decodes %s", (_, buffer) => {
+    expect(decodeAwsFeed(buffer)).toBe("[]");
+  });
+});
+
+describe("aws-health", () => {
+  it("keeps only the configured region and services", async () => {
+    stubFetchWithFixture("aws-currentevents.json", "application/json");
+    const summary = await getProviderStatus(
+      configuredProvider("aws-health-us-east-2")
+    );
+
+    expect(summary.error).toBeUndefined();
+    expect(summary.status).toBe("partial_outage");
+    expect(summary.message).toBe("Increased API Error Rates");
+    expect(summary.components?.map((c) => [c.name, c.status])).toEqual([
+      ["ec2 (us-east-2)", "partial_outage"],
+      ["rds (us-east-2)", "operational"],
+      ["lambda (us-east-2)", "operational"],
+    ]);
+    expect(
+      summary.incidents?.map((i) => [i.title, i.phase, i.impact, i.components])
+    ).toEqual([
+      [
+        "Increased API Error Rates",
+        "investigating",
+        "partial_outage",
+        ["ec2 (us-east-2)"],
+      ],
+      [
+        "Increased Invocation Latency",
+        "resolved",
+        "degraded",
+        ["lambda (us-east-2)"],
+      ],
+    ]);
+  });
+
+  it("treats [RESOLVED] events as resolved at their last update", async () => {
+    stubFetchWithFixture("aws-currentevents.json", "application/json");
+    const summary = await getProviderStatus(
+      configuredProvider("aws-health-us-east-2")
+    );
+    const lambda = summary.incidents?.find((i) =>
+      i.components?.includes("lambda (us-east-2)")
+    );
+
+    expect(lambda).toMatchObject({
+      phase: "resolved",
+      startedAt: "2026-10-14T09:02:00.000Z",
+      resolvedAt: "2026-10-14T09:44:00.000Z",
+    });
+    expect(lambda?.updates?.map((u) => u.phase)).toEqual([
+      "resolved",
+      "investigating",
+    ]);
+  });
+
+  it("reads region-less services as global", async () => {
+    stubFetchWithFixture("aws-currentevents.json", "application/json");
+    const summary = await getProviderStatus(configuredProvider("aws-health"));
+
+    expect(summary.status).toBe("degraded");
+    expect(summary.incidents?.map((i) => i.title)).toEqual([
+      "DNS Propagation Delays",
+    ]);
+    expect(summary.components).toEqual([
+      { id: "route53", name: "route53 (global)", status: "degraded" },
+    ]);
+  });
+});
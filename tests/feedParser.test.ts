@@ -0,0 +1,103 @@
+// tests/feedParser.test.ts
+// RSS 2.0 and Atom feeds, as vendors actually serve them.
+import { describe, expect, it } from "vitest";
+import { decodeEntities, parseFeed, stripHtml } from "@/lib/feedParser";
+import { readFixture } from "./helpers";
+
+describe("parseFeed", () => {
+  it("reads an RSS 2.0 feed newest first with ISO dates", async () => {
+    const items = await parseFeed(
+      readFixture("commercetools-rss.xml").toString("utf8")
+    );
+
+    expect(items.map((i) => [i.date, i.title])).toEqual([
+      ["2026-10-16T06:00:00.000Z", "Scheduled maintenance: Merchant Center"],
+      ["2026-10-14T11:02:00.000Z", "Resolved: Checkout latency in us-central1"],
+      ["2026-10-14T09:48:00.000Z", "Checkout latency in us-central1"],
+      [
+        "2026-10-13T08:41:00.000Z",
+        "Update: Elevated error rates on the Import API in europe-west1",
+      ],
+      [
+        "2026-10-13T07:14:00.000Z",
+        "Elevated error rates on the Import API in europe-west1",
+      ],
+    ]);
+    expect(items[1]).toEqual({
+      id: "https://status.commercetools.com/incidents/6a11b7d40c53#resolved",
+      title: "Resolved: Checkout latency in us-central1",
+      text: "This incident has been resolved. Checkout response times are back to normal & no orders were lost.",
+      link: "https://status.commercetools.com/incidents/6a11b7d40c53",
+      date: "2026-10-14T11:02:00.000Z",
+    });
+  });
+
+  it("decodes entities in CDATA and escaped HTML bodies", async () => {
+    const items = await parseFeed(
+      readFixture("commercetools-rss.xml").toString("utf8")
+    );
+    const text = (title: string) => items.find((i) => i.title === title)?.text;
+
+    expect(text("Checkout latency in us-central1")).toBe(
+      "We’re seeing increased latency on the Checkout API…"
+    );
+    expect(
+      text("Update: Elevated error rates on the Import API in europe-west1")
+    ).toBe(
+      "A fix is being implemented — imports queued since 07:10 UTC will be retried."
+    );
+    expect(text("Elevated error rates on the Import API in europe-west1")).toBe(
+      "We are investigating elevated error rates on the Import API in europe-west1."
+    );
+  });
+
+  it("reads an Atom feed with entry ids and published dates", async () => {
+    const items = await parseFeed(
+      readFixture("statuspage-history.atom").toString("utf8")
+    );
+
+    expect(items).toEqual([
+      {
+        id: "tag:status.example-vendor.com,2005:Incident/24431077",
+        title: "Dashboard & API – partial outage",
+        text: "Investigating - Some requests to the dashboard & API fail with 503.",
+        link: "https://status.example-vendor.com/incidents/p8d3x6c0j4yn",
+        date: "2026-10-15T06:31:12.000Z",
+      },
+      {
+        id: "tag:status.example-vendor.com,2005:Incident/24418830",
+        title: "Webhook delivery delays",
+        text: "Oct 12 Resolved - Webhooks are delivered normally again.",
+        link: "https://status.example-vendor.com/incidents/k2m7q9w1v5rt",
+        date: "2026-10-12T14:20:05.000Z",
+      },
+    ]);
+  });
+
+  it("rejects a document that isn't a feed", async () => {
+    await expect(
+      parseFeed("<html><body>Maintenance</body></html>")
+    ).rejects.toThrow(SyntaxError);
+  });
+});
+
+describe("decodeEntities", () => {
+  it.each([
+    ["&amp;nbsp;", "&nbsp;"],
+    ["caf&#233;", "café"],
+    ["&#x1F6A8; alert", "🚨 alert"],
+    ["&LT;b&GT;", "<b>"],
+    ["&unknown; &#xZZ;", "&unknown; &#xZZ;"],
+    ["&#x110000; &#99999999;", "&#x110000; &#99999999;"],
+  ])("%s → %s", (input, output) => {
+    expect(decodeEntities(input)).toBe(output);
+  });
+});
+
+describe("stripHtml", () => {
+  it("drops tags and CDATA markers and collapses whitespace", () => {
+    expect(
+      stripHtml("<![CDATA[<p>API&nbsp;errors</p>\n\n<ul><li>EU</li></ul>]]>")
+    ).toBe("API errors EU");
+  });
+});
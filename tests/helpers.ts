@@ -0,0 +1,41 @@
+// tests/helpers.ts
+// Shared by the test files: saved vendor payloads and a fetch stub.
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { vi } from "vitest";
+import { getProvider, type ProviderConfig } from "@/lib/providerConfig";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+export function readFixture(name: string): Buffer {
+  return readFileSync(path.join(FIXTURES_DIR, name));
+}
+
+export function readJsonFixture<T = unknown>(name: string): T {
+  return JSON.parse(readFixture(name).toString("utf8")) as T;
+}
+
+/**
+ * Answer every fetch with the given fixture (status 200). Returns the mock
+ * so tests can check which URLs were requested.
+ */
+export function stubFetchWithFixture(name: string, contentType: string) {
+  const body = readFixture(name);
+  const mock = vi.fn(
+    async () =>
+      new Response(new Uint8Array(body), {
+        headers: { "Content-Type": contentType },
+      })
+  );
+  vi.stubGlobal("fetch", mock);
+  return mock;
+}
+
+/**
+ * A provider from config/providers.json; throws if the id is missing.
+ */
+export function configuredProvider(id: string): ProviderConfig {
+  const provider = getProvider(id);
+  if (!provider) throw new Error(`No provider "${id}" in config`);
+  return provider;
+}
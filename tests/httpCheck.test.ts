@@ -0,0 +1,219 @@
+// tests/httpCheck.test.ts
+// Synthetic HTTP checks graded against saved health-endpoint responses:
+// status codes, JSON path and regex assertions, and latency thresholds.
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  evaluateHttpCheck,
+  parseJsonPath,
+  type HttpCheckConfig,
+} from "@/lib/httpCheck";
+import { getProviderStatus } from "@/lib/statusSources";
+import { readFixture, stubFetchWithFixture } from "./helpers";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function response(fixture: string, status = 200, elapsedMs = 120) {
+  return { status, body: readFixture(fixture).toString("utf8"), elapsedMs };
+}
+
+describe("parseJsonPath", () => {
+  it.each([
+    ["$", []],
+    ["$.status", ["status"]],
+    ["$.checks[1].status", ["checks", 1, "status"]],
+    ['$.region["failover active"]', ["region", "failover active"]],
+    ["$.a_b.$c.d-e", ["a_b", "$c", "d-e"]],
+  ])("%s → %j", (path, keys) => {
+    expect(parseJsonPath(path)).toEqual(keys);
+  });
+
+  it.each(["status", "$status", "$.checks[x]", "$.checks[0", "$['status']"])(
+    "rejects %s",
+    (path) => {
+      expect(parseJsonPath(path)).toBeNull();
+    }
+  );
+});
+
+describe("evaluateHttpCheck", () => {
+  describe("status codes", () => {
+    it.each([
+      [200, undefined, "operational"],
+      [204, undefined, "operational"],
+      [301, undefined, "partial_outage"],
+      [404, undefined, "partial_outage"],
+      [500, undefined, "major_outage"],
+      [502, undefined, "major_outage"],
+      [200, [204], "partial_outage"],
+      [503, [200, 503], "operational"],
+    ])("HTTP %i with expectedStatus %j → %s", (code, expected, level) => {
+      const check: HttpCheckConfig = { expectedStatus: expected };
+      expect(
+        evaluateHttpCheck(response("health-ok.json", code), check).status
+      ).toBe(level);
+    });
+
+    it("names the expected codes in the failure", () => {
+      expect(
+        evaluateHttpCheck(response("health-502.html", 502), {
+          expectedStatus: [200, 204],
+        }).failures
+      ).toEqual(["HTTP 502 (expected 200, 204)"]);
+    });
+  });
+
+  describe("JSON path assertions", () => {
+    const check: HttpCheckConfig = {
+      assertions: [
+        { jsonPath: "$.status", equals: "ok" },
+        { jsonPath: "$.checks[1].status", equals: "up", level: "degraded" },
+        { jsonPath: '$.region["failover active"]', equals: false },
+        { jsonPath: "$.version" },
+      ],
+    };
+
+    it("passes a healthy response", () => {
+      expect(evaluateHttpCheck(response("health-ok.json"), check)).toEqual({
+        status: "operational",
+        failures: [],
+      });
+    });
+
+    it("reports every failed assertion at its level", () => {
+      expect(
+        evaluateHttpCheck(response("health-degraded.json"), check)
+      ).toEqual({
+        status: "major_outage",
+        failures: [
+          '$.status is "degraded", expected "ok"',
+          '$.checks[1].status is "down", expected "up"',
+          '$.region["failover active"] is true, expected false',
+        ],
+      });
+    });
+
+    it("takes the assertion's level when it is the only failure", () => {
+      expect(
+        evaluateHttpCheck(response("health-degraded.json"), {
+          assertions: [
+            { jsonPath: "$.checks[1].status", equals: "up", level: "degraded" },
+          ],
+        }).status
+      ).toBe("degraded");
+    });
+
+    it("compares objects and arrays by value", () => {
+      expect(
+        evaluateHttpCheck(response("health-ok.json"), {
+          assertions: [
+            {
+              jsonPath: "$.region",
+              equals: { primary: "us-east-2", "failover active": false },
+            },
+          ],
+        }).failures
+      ).toEqual([]);
+    });
+
+    it("only needs a path without equals to exist", () => {
+      const result = evaluateHttpCheck(response("health-ok.json"), {
+        assertions: [
+          { jsonPath: "$.checks[2].latencyMs" },
+          { jsonPath: "$.checks[1].error", level: "partial_outage" },
+        ],
+      });
+      expect(result).toEqual({
+        status: "partial_outage",
+        failures: ["$.checks[1].error is missing"],
+      });
+    });
+
+    it("fails JSON assertions on a body that isn't JSON", () => {
+      expect(
+        evaluateHttpCheck(response("health-502.html", 502), {
+          assertions: [{ jsonPath: "$.status", equals: "ok" }],
+        }).failures
+      ).toEqual(["HTTP 502", "body is not valid JSON"]);
+    });
+
+    it("fails a malformed path instead of reading the whole body", () => {
+      expect(
+        evaluateHttpCheck(response("health-ok.json"), {
+          assertions: [{ jsonPath: "$.checks[x]", level: "degraded" }],
+        })
+      ).toEqual({
+        status: "degraded",
+        failures: ["$.checks[x] is not a valid JSON path"],
+      });
+    });
+  });
+
+  describe("regex assertions", () => {
+    it("matches the raw body, with flags", () => {
+      const result = evaluateHttpCheck(response("health-text.txt"), {
+        assertions: [
+          { regex: "db:\\s*up" },
+          { regex: "^cache: up$", flags: "m" },
+          { regex: "queue: up", flags: "i", level: "degraded" },
+        ],
+      });
+      expect(result).toEqual({
+        status: "degraded",
+        failures: ["body does not match /queue: up/"],
+      });
+    });
+  });
+
+  describe("latency", () => {
+    const check: HttpCheckConfig = {
+      latency: { degradedMs: 800, majorOutageMs: 3000 },
+    };
+
+    it.each([
+      [800, "operational", []],
+      [801, "degraded", ["slow response (> 800 ms)"]],
+      [3001, "major_outage", ["slow response (> 3000 ms)"]],
+    ])("%i ms → %s", (elapsedMs, level, failures) => {
+      expect(
+        evaluateHttpCheck(response("health-ok.json", 200, elapsedMs), check)
+      ).toEqual({ status: level, failures });
+    });
+  });
+});
+
+describe("http-check provider", () => {
+  it("sends the configured request and reports failures", async () => {
+    const fetch = stubFetchWithFixture(
+      "health-degraded.json",
+      "application/json"
+    );
+    const summary = await getProviderStatus({
+      id: "storefront-api",
+      name: "Storefront API",
+      kind: "http-check",
+      url: "https://api.example.com/health",
+      group: "infra",
+      critical: true,
+      check: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: '{"deep":true}',
+        assertions: [
+          { jsonPath: "$.checks[1].status", equals: "up", level: "degraded" },
+        ],
+      },
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://api.example.com/health",
+      expect.objectContaining({ method: "POST", body: '{"deep":true}' })
+    );
+    expect(summary.status).toBe("degraded");
+    expect(summary.message).toBe(
+      'Check failed: $.checks[1].status is "down", expected "up"'
+    );
+    expect(summary.responseTimeMs).toEqual(expect.any(Number));
+  });
+});
@@ -0,0 +1,84 @@
+// tests/incidentHistory.test.ts
+// The provider page's Statuspage incident history: one upstream request per
+// poll interval, however often the page renders.
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resolvePollSettings } from "@/lib/providerConfig";
+import { getIncidentHistory } from "@/lib/statusSources";
+import { configuredProvider, stubFetchWithFixture } from "./helpers";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("getIncidentHistory", () => {
+  it("reuses the fetched history for one poll interval", async () => {
+    // summary.json carries an `incidents` array like incidents.json does
+    const fetch = stubFetchWithFixture(
+      "vercel-summary.json",
+      "application/json"
+    );
+    const provider = configuredProvider("vercel");
+    const intervalMs = resolvePollSettings(provider).intervalSeconds * 1000;
+    const t0 = Date.parse("2026-10-14T17:00:00Z");
+
+    const [first, second] = await Promise.all([
+      getIncidentHistory(provider, t0),
+      getIncidentHistory(provider, t0),
+    ]);
+    await getIncidentHistory(provider, t0 + intervalMs - 1);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(
+      "https://www.vercel-status.com/api/v2/incidents.json",
+      expect.anything()
+    );
+    expect(first?.map((i) => i.id)).toEqual(["t9w3fz0l2x8c"]);
+    expect(second).toBe(first);
+
+    await getIncidentHistory(provider, t0 + intervalMs);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries a failed fetch on the next call", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetch = vi.fn(async () => new Response("", { status: 503 }));
+    vi.stubGlobal("fetch", fetch);
+    const provider = configuredProvider("cybersource");
+    const t0 = Date.parse("2026-10-14T17:00:00Z");
+
+    expect(await getIncidentHistory(provider, t0)).toBeNull();
+    stubFetchWithFixture("cybersource-summary.json", "application/json");
+    const history = await getIncidentHistory(provider, t0 + 1000);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(history?.map((i) => i.id)).toContain("g5k1d9s3x7ha");
+    error.mockRestore();
+  });
+
+  it("runs the shared fetch on its own timeout signal", async () => {
+    const fetch = stubFetchWithFixture(
+      "vercel-summary.json",
+      "application/json"
+    );
+    const provider = configuredProvider("vercel");
+
+    await getIncidentHistory(provider, Date.parse("2026-10-15T17:00:00Z"));
+
+    expect(fetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it("doesn't fetch for adapters without a history endpoint", async () => {
+    const fetch = stubFetchWithFixture(
+      "commercetools-rss.xml",
+      "application/rss+xml"
+    );
+
+    expect(
+      await getIncidentHistory(configuredProvider("commercetools"))
+    ).toBeNull();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
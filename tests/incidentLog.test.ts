@@ -0,0 +1,107 @@
+// tests/incidentLog.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  getIncidentStats,
+  queryIncidents,
+  recordIncidents,
+} from "@/lib/incidentLog";
+import type { StatusIncident, StatusSummary } from "@/lib/statusSources";
+
+const PAGE_URL = "https://status.example.com";
+
+// Each test logs under its own provider id; the store is shared per process
+function summary(id: string, incidents?: StatusIncident[]): StatusSummary {
+  return {
+    id,
+    name: `Provider ${id}`,
+    status: incidents?.length ? "degraded" : "operational",
+    detailUrl: PAGE_URL,
+    incidents,
+  };
+}
+
+function incident(
+  id: string,
+  over: Partial<StatusIncident> = {}
+): StatusIncident {
+  return {
+    id,
+    title: `Incident ${id}`,
+    phase: "investigating",
+    impact: "degraded",
+    startedAt: "2026-10-01T10:00:00.000Z",
+    // Better Stack, Status.io and others link every incident to the page
+    link: PAGE_URL,
+    ...over,
+  };
+}
+
+async function logged(provider: string) {
+  return queryIncidents({ providers: [provider], q: "" });
+}
+
+describe("recordIncidents", () => {
+  it("keeps concurrent incidents with the same link apart", async () => {
+    await recordIncidents(
+      summary("concurrent", [
+        incident("1", { title: "Dashboard down" }),
+        incident("2", {
+          title: "API errors",
+          impact: "partial_outage",
+          startedAt: "2026-10-01T10:30:00.000Z",
+        }),
+      ]),
+      new Date("2026-10-01T10:35:00Z")
+    );
+
+    const entries = await logged("concurrent");
+    expect(entries.map((e) => [e.id, e.title, e.maxImpact])).toEqual([
+      ["2", "API errors", "partial_outage"],
+      ["1", "Dashboard down", "degraded"],
+    ]);
+  });
+
+  it("tracks worst impact and components, and closes vanished incidents", async () => {
+    await recordIncidents(
+      summary("lifecycle", [incident("a", { components: ["API"] })]),
+      new Date("2026-10-01T10:05:00Z")
+    );
+    await recordIncidents(
+      summary("lifecycle", [
+        incident("a", { impact: "major_outage", components: ["Web"] }),
+      ]),
+      new Date("2026-10-01T10:10:00Z")
+    );
+    // A failed poll says nothing about the incident
+    await recordIncidents(
+      {
+        ...summary("lifecycle"),
+        error: {
+          kind: "timeout",
+          message: "timed out",
+          since: "2026-10-01T10:20:00.000Z",
+        },
+      },
+      new Date("2026-10-01T10:20:00Z")
+    );
+
+    let [entry] = await logged("lifecycle");
+    expect(entry.resolvedAt).toBeUndefined();
+
+    await recordIncidents(
+      summary("lifecycle", []),
+      new Date("2026-10-01T11:30:00Z")
+    );
+    [entry] = await logged("lifecycle");
+    expect(entry).toMatchObject({
+      phase: "resolved",
+      maxImpact: "major_outage",
+      components: ["API", "Web"],
+      resolvedAt: "2026-10-01T11:30:00.000Z",
+    });
+
+    expect(getIncidentStats([entry])).toEqual([
+      expect.objectContaining({ resolved: 1, mttrMs: 90 * 60 * 1000 }),
+    ]);
+  });
+});
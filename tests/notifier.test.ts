@@ -0,0 +1,246 @@
+// tests/notifier.test.ts
+// Alerts sent to a local webhook server and an SMTP stub: routing,
+// minSeverity, cooldown and retries.
+import { writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import { createServer as createTcpServer, type AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { notifyStatusChanges } from "@/lib/notifier";
+import type { StatusLevel } from "@/lib/statusLevels";
+
+interface Received {
+  path: string;
+  body: { provider: { id: string }; from: StatusLevel; to: StatusLevel };
+}
+
+const received: Received[] = [];
+const mails: string[] = [];
+// Webhook paths that answer 500 to their next request
+const failing = new Set<string>();
+
+let http: Server;
+let smtp: ReturnType<typeof createTcpServer>;
+
+function listen(server: Server | ReturnType<typeof createTcpServer>) {
+  return new Promise<number>((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve((server.address() as AddressInfo).port)
+    )
+  );
+}
+
+// Just enough SMTP for nodemailer: no extensions, no auth, no TLS
+function startSmtpStub() {
+  return createTcpServer((socket) => {
+    let data: string | null = null;
+    socket.write("220 localhost ESMTP stub\r\n");
+    socket.on("data", (chunk) => {
+      for (const line of chunk.toString("utf8").split("\r\n")) {
+        if (data !== null) {
+          if (line === ".") {
+            mails.push(data);
+            data = null;
+            socket.write("250 OK queued\r\n");
+          } else {
+            data += `${line}\n`;
+          }
+          continue;
+        }
+        const command = line.slice(0, 4).toUpperCase();
+        if (!command) continue;
+        if (command === "DATA") {
+          data = "";
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (command === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+}
+
+beforeAll(async () => {
+  http = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const url = req.url ?? "";
+      if (failing.delete(url)) {
+        res.writeHead(500).end();
+        return;
+      }
+      received.push({ path: url, body: JSON.parse(body) });
+      res.writeHead(204).end();
+    });
+  });
+  smtp = startSmtpStub();
+  const [httpPort, smtpPort] = [await listen(http), await listen(smtp)];
+  const hook = (name: string) => `http://127.0.0.1:${httpPort}/${name}`;
+
+  const configPath = path.join(tmpdir(), `notifications-${process.pid}.json`);
+  writeFileSync(
+    configPath,
+    JSON.stringify({
+      channels: [
+        {
+          id: "ops",
+          type: "webhook",
+          url: hook("ops"),
+          providers: ["routed", "severity", "retry"],
+          cooldownMinutes: 0,
+        },
+        {
+          id: "payments",
+          type: "webhook",
+          url: hook("payments"),
+          providers: ["routed"],
+          cooldownMinutes: 0,
+        },
+        {
+          id: "major",
+          type: "webhook",
+          url: hook("major"),
+          providers: ["severity"],
+          minSeverity: "major_outage",
+          cooldownMinutes: 0,
+        },
+        {
+          id: "slow",
+          type: "webhook",
+          url: hook("slow"),
+          providers: ["cooldown"],
+          cooldownMinutes: 30,
+        },
+        {
+          id: "oncall",
+          type: "email",
+          smtp: { host: "127.0.0.1", port: smtpPort },
+          from: "status-dashboard@example.com",
+          to: ["oncall@example.com"],
+          providers: ["emailed"],
+          minSeverity: "partial_outage",
+          cooldownMinutes: 0,
+        },
+      ],
+    })
+  );
+  vi.stubEnv("NOTIFICATIONS_CONFIG_PATH", configPath);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => http.close(resolve));
+  await new Promise((resolve) => smtp.close(resolve));
+});
+
+beforeEach(() => {
+  received.length = 0;
+  mails.length = 0;
+});
+
+const T0 = Date.parse("2026-10-14T12:00:00Z");
+
+// One poll of one provider, `minutes` after T0
+function poll(id: string, status: StatusLevel, minutes = 0) {
+  return notifyStatusChanges(
+    [{ id, name: `Provider ${id}`, status, message: `${id} is ${status}` }],
+    new Date(T0 + minutes * 60 * 1000)
+  );
+}
+
+function sent(hookPath: string) {
+  return received
+    .filter((r) => r.path === hookPath)
+    .map((r) => [r.body.provider.id, r.body.from, r.body.to]);
+}
+
+describe("notifyStatusChanges", () => {
+  it("sends only to the channels a provider is routed to", async () => {
+    await poll("routed", "operational");
+    await poll("unrouted", "operational");
+    await poll("routed", "partial_outage", 1);
+    await poll("unrouted", "major_outage", 1);
+
+    expect(sent("/ops")).toEqual([["routed", "operational", "partial_outage"]]);
+    expect(sent("/payments")).toEqual([
+      ["routed", "operational", "partial_outage"],
+    ]);
+    expect(received).toHaveLength(2);
+  });
+
+  it("sends changes to or from minSeverity and worse", async () => {
+    await poll("severity", "operational");
+    await poll("severity", "degraded", 1);
+    await poll("severity", "major_outage", 2);
+    await poll("severity", "operational", 3);
+
+    expect(sent("/ops")).toEqual([
+      ["severity", "operational", "degraded"],
+      ["severity", "degraded", "major_outage"],
+      ["severity", "major_outage", "operational"],
+    ]);
+    // The recovery counts: it starts from a major outage
+    expect(sent("/major")).toEqual([
+      ["severity", "degraded", "major_outage"],
+      ["severity", "major_outage", "operational"],
+    ]);
+  });
+
+  it("holds changes back during the cooldown and sends them after", async () => {
+    await poll("cooldown", "operational");
+    await poll("cooldown", "degraded", 1);
+    await poll("cooldown", "partial_outage", 5);
+    await poll("cooldown", "partial_outage", 20);
+    expect(sent("/slow")).toEqual([["cooldown", "operational", "degraded"]]);
+
+    await poll("cooldown", "partial_outage", 31);
+    expect(sent("/slow")).toEqual([
+      ["cooldown", "operational", "degraded"],
+      ["cooldown", "degraded", "partial_outage"],
+    ]);
+  });
+
+  it("retries a failed send on the next poll", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    await poll("retry", "operational");
+    failing.add("/ops");
+    await poll("retry", "major_outage", 1);
+
+    expect(sent("/ops")).toEqual([]);
+    expect(error).toHaveBeenCalledWith(
+      "Notification via ops failed for Provider retry",
+      expect.any(Error)
+    );
+
+    await poll("retry", "major_outage", 2);
+    expect(sent("/ops")).toEqual([["retry", "operational", "major_outage"]]);
+    error.mockRestore();
+  });
+
+  it("emails through SMTP", async () => {
+    await poll("emailed", "operational");
+    await poll("emailed", "degraded", 1);
+    expect(mails).toEqual([]);
+
+    await poll("emailed", "partial_outage", 2);
+    expect(mails).toHaveLength(1);
+    // Headers and body as they went over the wire (quoted-printable)
+    expect(mails[0]).toContain("To: oncall@example.com");
+    expect(mails[0]).toContain(
+      "Provider emailed: Degraded =E2=86=92 Partial outage"
+    );
+    expect(mails[0]).toContain("At: 2026-10-14T12:02:00.000Z");
+  });
+});
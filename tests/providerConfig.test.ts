@@ -0,0 +1,50 @@
+// tests/providerConfig.test.ts
+// Validation of http-check request settings in config/providers.json.
+import { describe, expect, it } from "vitest";
+import { ConfigError } from "@/lib/configFile";
+import { validateProvidersFile } from "@/lib/providerConfig";
+
+function withCheck(check: Record<string, unknown>) {
+  return {
+    groups: [{ id: "core", name: "Core" }],
+    providers: [
+      {
+        id: "api",
+        name: "API",
+        kind: "http-check",
+        group: "core",
+        url: "https://api.example.com/health",
+        check,
+      },
+    ],
+  };
+}
+
+function issuesFor(check: Record<string, unknown>): string[] {
+  try {
+    validateProvidersFile(withCheck(check), "providers.json");
+    return [];
+  } catch (err) {
+    if (err instanceof ConfigError) return err.issues;
+    throw err;
+  }
+}
+
+describe("http-check body", () => {
+  it.each([
+    [{ body: "{}" }],
+    [{ method: "GET", body: "{}" }],
+    [{ method: "HEAD", body: "{}" }],
+  ])("is rejected without a method that takes one: %j", (check) => {
+    expect(issuesFor(check)).toEqual([
+      "providers[0] (api).check.body: needs a method other than GET or HEAD",
+    ]);
+  });
+
+  it.each([[{ method: "POST", body: "{}" }], [{ method: "PUT", body: "" }]])(
+    "is accepted with %j",
+    (check) => {
+      expect(issuesFor(check)).toEqual([]);
+    }
+  );
+});
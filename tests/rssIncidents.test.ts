@@ -0,0 +1,191 @@
+// tests/rssIncidents.test.ts
+// Feed items → incidents: phase and impact keywords, grouping, per-provider
+// rules and the staleness cut-off.
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseFeed, type FeedItem } from "@/lib/feedParser";
+import {
+  DEFAULT_RSS_RULES,
+  detectLevel,
+  detectPhase,
+  groupFeedItems,
+  normalizeIncidentTitle,
+  resolveRssRules,
+} from "@/lib/rssIncidents";
+import { getProviderStatus } from "@/lib/statusSources";
+import {
+  configuredProvider,
+  readFixture,
+  stubFetchWithFixture,
+} from "./helpers";
+
+const NOW = Date.parse("2026-10-14T12:00:00Z");
+
+function commercetoolsItems(): Promise<FeedItem[]> {
+  return parseFeed(readFixture("commercetools-rss.xml").toString("utf8"));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("detectPhase", () => {
+  it.each([
+    ["Resolved: outage in EU", "resolved"],
+    ["[Monitoring] A fix has been deployed", "monitoring"],
+    ["The issue has been identified", "identified"],
+    ["We are implementing a fix", "identified"],
+    ["Investigating elevated errors", "investigating"],
+    ["API errors in us-east-1", "investigating"],
+  ])("%s → %s", (text, phase) => {
+    expect(detectPhase(text, DEFAULT_RSS_RULES)).toBe(phase);
+  });
+});
+
+describe("detectLevel", () => {
+  it.each([
+    ["Major outage of the Checkout API", "major_outage"],
+    ["Partial outage in EU", "partial_outage"],
+    ["Dashboard unavailable", "major_outage"],
+    ["Elevated error rates on imports", "degraded"],
+    ["Webhooks delayed", "degraded"],
+  ])("%s → %s", (text, level) => {
+    expect(detectLevel(text, DEFAULT_RSS_RULES)).toBe(level);
+  });
+});
+
+describe("normalizeIncidentTitle", () => {
+  it.each([
+    ["Resolved: API errors", "API errors"],
+    ["[Monitoring] API errors", "API errors"],
+    ["Update - Resolved - API errors", "API errors"],
+    ["Active - Azure Front Door - EU", "Azure Front Door - EU"],
+    ["Active Directory sign-in errors", "Active Directory sign-in errors"],
+  ])("%s → %s", (title, normalized) => {
+    expect(normalizeIncidentTitle(title)).toBe(normalized);
+  });
+});
+
+describe("groupFeedItems", () => {
+  it("doesn't count a resolved outage", () => {
+    const { incidents } = groupFeedItems(
+      [
+        {
+          id: "2",
+          title: "Resolved: outage in EU",
+          text: "",
+          date: "2026-10-14T11:00:00.000Z",
+        },
+        {
+          id: "1",
+          title: "Outage in EU",
+          text: "We are investigating.",
+          date: "2026-10-14T10:00:00.000Z",
+        },
+      ],
+      DEFAULT_RSS_RULES,
+      NOW
+    );
+
+    expect(incidents).toEqual([
+      expect.objectContaining({
+        title: "outage in EU",
+        phase: "resolved",
+        impact: "major_outage",
+        startedAt: "2026-10-14T10:00:00.000Z",
+        resolvedAt: "2026-10-14T11:00:00.000Z",
+      }),
+    ]);
+  });
+
+  it("groups a real feed by link and splits out maintenance", async () => {
+    const { incidents, maintenances } = groupFeedItems(
+      await commercetoolsItems(),
+      resolveRssRules({ activeWindowHours: 48 }),
+      NOW
+    );
+
+    expect(
+      incidents.map((i) => [i.title, i.phase, i.impact, i.updates?.length])
+    ).toEqual([
+      ["Checkout latency in us-central1", "resolved", "degraded", 2],
+      [
+        "Elevated error rates on the Import API in europe-west1",
+        "identified",
+        "degraded",
+        2,
+      ],
+    ]);
+    expect(maintenances).toEqual([
+      {
+        id: "https://status.commercetools.com/incidents/6a14e9a2f771",
+        title: "Scheduled maintenance: Merchant Center",
+        state: "scheduled",
+        scheduledFor: undefined,
+        link: "https://status.commercetools.com/incidents/6a14e9a2f771",
+      },
+    ]);
+  });
+
+  it("treats open incidents past activeWindowHours as resolved", async () => {
+    const items = await commercetoolsItems();
+    const phaseOf = (hours: number) =>
+      groupFeedItems(
+        items,
+        resolveRssRules({ activeWindowHours: hours }),
+        NOW
+      ).incidents.find((i) => i.title.startsWith("Elevated error rates"))
+        ?.phase;
+
+    // Last update 2026-10-13T08:41Z, 27h19m before NOW
+    expect(phaseOf(28)).toBe("identified");
+    expect(phaseOf(27)).toBe("resolved");
+    expect(phaseOf(24)).toBe("resolved");
+  });
+
+  it("applies per-provider rule overrides", async () => {
+    const rules = resolveRssRules({
+      activeWindowHours: 48,
+      phases: { ...DEFAULT_RSS_RULES.phases, resolved: ["all clear"] },
+      levels: [{ level: "partial_outage", match: ["import api"] }],
+      defaultLevel: "major_outage",
+    });
+    const { incidents } = groupFeedItems(
+      await commercetoolsItems(),
+      rules,
+      NOW
+    );
+
+    expect(incidents.map((i) => [i.title, i.phase, i.impact])).toEqual([
+      // "resolved" is no longer a resolved keyword for this provider
+      ["Checkout latency in us-central1", "investigating", "major_outage"],
+      [
+        "Elevated error rates on the Import API in europe-west1",
+        "identified",
+        "partial_outage",
+      ],
+    ]);
+  });
+});
+
+describe("rss provider", () => {
+  it("takes its status from unresolved incidents only", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+    stubFetchWithFixture("commercetools-rss.xml", "application/rss+xml");
+
+    const summary = await getProviderStatus(
+      configuredProvider("commercetools")
+    );
+
+    expect(summary.error).toBeUndefined();
+    // Checkout latency is resolved; the Import API incident went stale
+    expect(summary.status).toBe("operational");
+    expect(summary.message).toBe("No active incidents");
+    expect(summary.incidents?.map((i) => i.phase)).toEqual([
+      "resolved",
+      "resolved",
+    ]);
+    expect(summary.inMaintenance).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+// tests/statusMappers.test.ts
+// The tables that turn vendor status strings and HTTP codes into levels.
+import { describe, expect, it } from "vitest";
+import {
+  httpStatusToLevel,
+  impactToStatus,
+  mapComponentStatus,
+  mapStatuspageIndicator,
+} from "@/lib/statusSources";
+
+describe("mapStatuspageIndicator", () => {
+  it.each([
+    ["none", "operational"],
+    ["minor", "degraded"],
+    ["maintenance", "operational"],
+    ["major", "partial_outage"],
+    ["critical", "major_outage"],
+    ["something_new", "degraded"],
+    [undefined, "degraded"],
+    [null, "degraded"],
+  ])("%s → %s", (indicator, level) => {
+    expect(mapStatuspageIndicator(indicator)).toBe(level);
+  });
+});
+
+describe("impactToStatus", () => {
+  it.each([
+    ["critical", "major_outage"],
+    ["major", "partial_outage"],
+    ["minor", "degraded"],
+    ["maintenance", "degraded"],
+    ["none", "degraded"],
+    ["something_new", null],
+    [undefined, null],
+    [null, null],
+  ])("%s → %s", (impact, level) => {
+    expect(impactToStatus(impact)).toBe(level);
+  });
+});
+
+describe("mapComponentStatus", () => {
+  it.each([
+    ["operational", "operational"],
+    ["degraded_performance", "degraded"],
+    ["under_maintenance", "operational"],
+    ["partial_outage", "partial_outage"],
+    ["major_outage", "major_outage"],
+    ["something_new", "operational"],
+    [undefined, "operational"],
+    [null, "operational"],
+  ])("%s → %s", (status, level) => {
+    expect(mapComponentStatus(status)).toBe(level);
+  });
+});
+
+describe("httpStatusToLevel", () => {
+  it.each([
+    [200, "operational"],
+    [204, "operational"],
+    [301, "operational"],
+    [399, "operational"],
+    [400, "degraded"],
+    [404, "degraded"],
+    [429, "degraded"],
+    [500, "partial_outage"],
+    [501, "partial_outage"],
+    [502, "major_outage"],
+    [503, "major_outage"],
+    [504, "major_outage"],
+    [520, "partial_outage"],
+    [101, "degraded"],
+  ])("%i → %s", (code, level) => {
+    expect(httpStatusToLevel(code)).toBe(level);
+  });
+});
@@ -0,0 +1,286 @@
+// tests/statusPages.test.ts
+// One saved payload per non-Statuspage platform: incidents, components and
+// the overall level each parser reads from it.
+import { describe, expect, it } from "vitest";
+import { parseAzureFeed } from "@/lib/azureStatus";
+import { betterStackLevel, parseBetterStackIndex } from "@/lib/betterStack";
+import { parseFeed } from "@/lib/feedParser";
+import { parseGoogleCloudIncidents } from "@/lib/googleCloud";
+import { incidentIoLevel, parseIncidentIoWidget } from "@/lib/incidentIo";
+import { instatusLevel, parseInstatusSummary } from "@/lib/instatus";
+import { parseStatusIoStatus, statusIoLevel } from "@/lib/statusIo";
+import { readFixture, readJsonFixture } from "./helpers";
+
+describe("incident.io", () => {
+  const detailUrl = "https://status.example-incidentio.com";
+  const page = parseIncidentIoWidget(
+    readJsonFixture("incidentio-widget.json"),
+    detailUrl
+  );
+
+  it("reads ongoing incidents and the components they affect", () => {
+    expect(page.status).toBe("partial_outage");
+    expect(page.incidents).toEqual([
+      {
+        id: "01JA8Z3V6K0R5QH2T9YB4MXC7D",
+        title: "Delayed webhook deliveries",
+        phase: "identified",
+        impact: "partial_outage",
+        updatedAt: "2026-10-14T16:12:48.311Z",
+        link: `${detailUrl}/incidents/01JA8Z3V6K0R5QH2T9YB4MXC7D`,
+        components: ["Webhooks", "Dashboard"],
+      },
+    ]);
+    expect(page.components.map((c) => [c.name, c.status, c.group])).toEqual([
+      ["Webhooks", "partial_outage", "API"],
+      ["Dashboard", "degraded", undefined],
+    ]);
+  });
+
+  it("reads in-progress and scheduled maintenance", () => {
+    expect(
+      page.maintenances.map((m) => [m.title, m.state, m.scheduledFor, m.link])
+    ).toEqual([
+      [
+        "Database failover",
+        "in_progress",
+        "2026-10-14T16:00:00.000Z",
+        `${detailUrl}/incidents/01JA90AQ3D2N8V`,
+      ],
+      [
+        "TLS certificate rotation",
+        "scheduled",
+        "2026-10-20T06:00:00.000Z",
+        detailUrl,
+      ],
+    ]);
+  });
+});
+
+describe("Instatus", () => {
+  const detailUrl = "https://example.instatus.com";
+  const page = parseInstatusSummary(
+    readJsonFixture("instatus-summary.json"),
+    detailUrl
+  );
+
+  it("reads incidents, components and the overall level", () => {
+    expect(page.status).toBe("major_outage");
+    expect(page.incidents).toEqual([
+      {
+        id: "clw9r3x0a001208l5",
+        title: "Dashboard not loading",
+        phase: "monitoring",
+        impact: "major_outage",
+        startedAt: "2026-10-14T13:05:00.000Z",
+        updatedAt: "2026-10-14T14:22:00.000Z",
+        link: `${detailUrl}/clw9r3x0a001208l5`,
+      },
+    ]);
+    expect(page.components.map((c) => [c.name, c.status, c.group])).toEqual([
+      ["API", "operational", undefined],
+      ["Dashboard", "major_outage", "Web"],
+      // Under maintenance: reported through `maintenances` instead
+      ["Search", "operational", "Web"],
+    ]);
+  });
+
+  it("drops completed maintenance and works out the end time", () => {
+    expect(page.maintenances).toEqual([
+      {
+        id: "clw9s1b7e002308l5",
+        title: "Search index rebuild",
+        state: "in_progress",
+        scheduledFor: "2026-10-14T14:00:00.000Z",
+        scheduledUntil: "2026-10-14T15:30:00.000Z",
+        link: `${detailUrl}/clw9s1b7e002308l5`,
+      },
+    ]);
+  });
+});
+
+describe("Better Stack", () => {
+  const detailUrl = "https://status.example-betterstack.com";
+  const page = parseBetterStackIndex(
+    readJsonFixture("betterstack-index.json"),
+    detailUrl,
+    Date.parse("2026-10-14T17:00:00Z")
+  );
+
+  it("reads monitored resources by section", () => {
+    expect(page.status).toBe("degraded");
+    expect(page.components.map((c) => [c.name, c.status, c.group])).toEqual([
+      ["API", "operational", "Core"],
+      ["Job runner", "degraded", "Core"],
+      ["Slack app", "operational", "Integrations"],
+    ]);
+  });
+
+  it("splits status reports into incidents and maintenance", () => {
+    expect(
+      page.incidents.map((i) => [
+        i.title,
+        i.phase,
+        i.impact,
+        i.resolvedAt,
+        i.components,
+      ])
+    ).toEqual([
+      [
+        "Job runner backlog",
+        "investigating",
+        "degraded",
+        undefined,
+        ["Job runner"],
+      ],
+      [
+        "Slack notifications delayed",
+        "resolved",
+        "operational",
+        "2026-10-12T09:45:00.000Z",
+        ["Slack app"],
+      ],
+    ]);
+    expect(page.maintenances).toEqual([
+      {
+        id: "553050",
+        title: "Database upgrade",
+        state: "scheduled",
+        scheduledFor: "2026-10-18T22:00:00.000Z",
+        scheduledUntil: "2026-10-18T23:00:00.000Z",
+        components: ["API"],
+        link: detailUrl,
+      },
+    ]);
+  });
+});
+
+describe("Status.io", () => {
+  const detailUrl = "https://status.example-statusio.com";
+  const page = parseStatusIoStatus(
+    readJsonFixture("statusio-status.json"),
+    detailUrl
+  );
+
+  it("lists each component per container", () => {
+    expect(page.status).toBe("partial_outage");
+    expect(page.components.map((c) => [c.name, c.status, c.group])).toEqual([
+      ["Storefront API (US East)", "partial_outage", "Storefront API"],
+      ["Storefront API (EU West)", "operational", "Storefront API"],
+      ["Merchant Center", "operational", "Merchant Center"],
+      ["Email", "operational", undefined],
+    ]);
+  });
+
+  it("takes the phase from the latest message and the worst impact", () => {
+    expect(page.incidents).toEqual([
+      expect.objectContaining({
+        id: "670d1f9b8e2a4c0011a3b6f1",
+        title: "Storefront API errors in US East",
+        phase: "identified",
+        impact: "partial_outage",
+        startedAt: "2026-10-14T15:58:00.000Z",
+        updatedAt: "2026-10-14T16:31:00.000Z",
+        components: ["Storefront API"],
+      }),
+    ]);
+    expect(page.incidents[0].updates?.map((u) => u.phase)).toEqual([
+      "identified",
+      "investigating",
+    ]);
+    expect(page.maintenances.map((m) => [m.title, m.state])).toEqual([
+      ["Email provider migration", "scheduled"],
+    ]);
+  });
+});
+
+describe("Google Cloud", () => {
+  const page = parseGoogleCloudIncidents(
+    readJsonFixture("gcp-incidents.json"),
+    "https://status.cloud.google.com"
+  );
+
+  it("keeps open incidents open until the feed sets an end", () => {
+    expect(page.status).toBe("partial_outage");
+    expect(
+      page.incidents.map((i) => [i.title, i.phase, i.impact, i.resolvedAt])
+    ).toEqual([
+      [
+        "Cloud Run: elevated deployment failures in us-central1",
+        "monitoring",
+        "partial_outage",
+        undefined,
+      ],
+      [
+        "BigQuery: increased query latency",
+        "resolved",
+        "degraded",
+        "2026-10-11T09:15:00.000Z",
+      ],
+    ]);
+    expect(page.incidents[0].link).toBe(
+      "https://status.cloud.google.com/incidents/xJ4vQ8nW2mT6"
+    );
+  });
+
+  it("reports products touched by open incidents as components", () => {
+    expect(page.components).toEqual([
+      {
+        id: "9D7d2iNBQWN24zc1VamE",
+        name: "Cloud Run",
+        status: "partial_outage",
+      },
+      {
+        id: "fw8GzBdZdqy4THau7e1y",
+        name: "Cloud Build",
+        status: "partial_outage",
+      },
+    ]);
+  });
+});
+
+describe("Azure", () => {
+  it("reads every feed item as an open incident", async () => {
+    const items = await parseFeed(
+      readFixture("azure-feed.xml").toString("utf8")
+    );
+    const page = parseAzureFeed(
+      items,
+      "https://azure.status.microsoft/en-us/status/"
+    );
+
+    expect(page.status).toBe("major_outage");
+    expect(page.components).toEqual([]);
+    // The "Investigating - " and "Active - " title prefixes are stripped
+    expect(
+      page.incidents.map((i) => [i.id, i.title, i.phase, i.impact, i.updatedAt])
+    ).toEqual([
+      [
+        "2TW9-K1D",
+        "Virtual Machines - West Europe",
+        "identified",
+        "degraded",
+        "2026-10-14T16:48:00.000Z",
+      ],
+      [
+        "VLX7-3T8",
+        "Azure Front Door - Intermittent connectivity issues",
+        "monitoring",
+        "major_outage",
+        "2026-10-14T16:21:00.000Z",
+      ],
+    ]);
+  });
+});
+
+describe("maintenance states", () => {
+  // Maintenance is reported through `maintenances`, never as a problem
+  it.each([
+    ["incident.io", () => incidentIoLevel("under_maintenance")],
+    ["Instatus", () => instatusLevel("UNDERMAINTENANCE")],
+    ["Better Stack", () => betterStackLevel("maintenance")],
+    ["Status.io", () => statusIoLevel(200)],
+  ])("%s maintenance is operational", (_, level) => {
+    expect(level()).toBe("operational");
+  });
+});
@@ -0,0 +1,114 @@
+// tests/statuspageSummary.test.ts
+// Vercel and Cybersource read Statuspage's summary.json: incidents,
+// components and maintenance must all come through.
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getProviderStatus } from "@/lib/statusSources";
+import { configuredProvider, stubFetchWithFixture } from "./helpers";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("statuspage-summary", () => {
+  it("reads Vercel incidents, grouped components and maintenance", async () => {
+    const fetch = stubFetchWithFixture(
+      "vercel-summary.json",
+      "application/json"
+    );
+    const summary = await getProviderStatus(configuredProvider("vercel"));
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://www.vercel-status.com/api/v2/summary.json",
+      expect.anything()
+    );
+    expect(summary.error).toBeUndefined();
+    expect(summary.status).toBe("degraded");
+    expect(summary.lastUpdated).toBe("2026-10-14T16:42:11.318Z");
+
+    expect(summary.incidents).toEqual([
+      expect.objectContaining({
+        id: "t9w3fz0l2x8c",
+        title: "Elevated latency in iad1",
+        phase: "identified",
+        impact: "degraded",
+        startedAt: "2026-10-14T16:05:37.895Z",
+        link: "https://stspg.io/vercel-t9w3",
+        components: ["iad1 - Washington, D.C., USA"],
+      }),
+    ]);
+    expect(summary.incidents?.[0].updates?.map((u) => u.phase)).toEqual([
+      "identified",
+      "investigating",
+    ]);
+
+    // The "Edge Network" group container only names its children
+    expect(summary.components).toEqual([
+      {
+        id: "3r1bgk4vfm0p",
+        name: "iad1 - Washington, D.C., USA",
+        status: "degraded",
+        group: "Edge Network",
+      },
+      {
+        id: "c8j2kxg5d1ht",
+        name: "fra1 - Frankfurt, Germany",
+        status: "operational",
+        group: "Edge Network",
+      },
+      {
+        id: "k1s7nm2pq0zr",
+        name: "Builds",
+        status: "operational",
+        group: undefined,
+      },
+    ]);
+
+    expect(summary.maintenances).toEqual([
+      expect.objectContaining({
+        id: "m4p8c2v6b0nd",
+        state: "scheduled",
+        scheduledFor: "2026-10-18T09:00:00.000Z",
+        scheduledUntil: "2026-10-18T11:00:00.000Z",
+        components: ["Builds"],
+      }),
+    ]);
+    expect(summary.inMaintenance).toBe(false);
+  });
+
+  it("reads a Cybersource outage and its in-progress maintenance", async () => {
+    stubFetchWithFixture("cybersource-summary.json", "application/json");
+    const summary = await getProviderStatus(configuredProvider("cybersource"));
+
+    expect(summary.error).toBeUndefined();
+    expect(summary.status).toBe("partial_outage");
+    expect(summary.group).toBe("saas");
+
+    expect(summary.incidents).toHaveLength(1);
+    expect(summary.incidents?.[0]).toMatchObject({
+      id: "g5k1d9s3x7ha",
+      phase: "investigating",
+      impact: "partial_outage",
+      components: ["Payment Processing"],
+    });
+    expect(summary.latestItems?.[0]).toMatchObject({
+      title: "Increased authorization declines and timeouts",
+      date: "2026-10-15T12:58:40.196Z",
+    });
+
+    expect(summary.components?.map((c) => [c.name, c.status])).toEqual([
+      ["Payment Processing", "partial_outage"],
+      ["Business Center", "operational"],
+      ["Token Management Service", "operational"],
+    ]);
+
+    // Completed windows are dropped
+    expect(summary.maintenances).toEqual([
+      expect.objectContaining({
+        id: "b2n5c8x1z4lk",
+        state: "in_progress",
+        components: ["Business Center"],
+      }),
+    ]);
+    expect(summary.inMaintenance).toBe(true);
+  });
+});
@@ -0,0 +1,21 @@
+// vitest.config.ts
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    // Stores written by the code under test go to a throwaway dir
+    env: {
+      STATUS_DATA_DIR: path.join(
+        tmpdir(),
+        `status-dashboard-test-${process.pid}`
+      ),
+    },
+  },
+});